@@ -0,0 +1,74 @@
+/**
+ * A cached response body with the validators the API sent with it
+ */
+export type CacheEntry = {
+  body: unknown;
+  etag: string | null;
+  expiresAt: number; // unix ms; revalidate with If-None-Match after this
+};
+
+/**
+ * Bounded in-process cache of GET responses, keyed by URL. Entries outlive
+ * their freshness on purpose: stale ones are revalidated with their ETag
+ * and serve as the last-known-good copy when the API is unreachable.
+ */
+export type ResponseCache = {
+  get(url: string): CacheEntry | undefined;
+  set(url: string, entry: CacheEntry): void;
+  clear(): void;
+};
+
+/**
+ * Parse the freshness lifetime from Cache-Control, in ms.
+ * no-store gives null (don't cache); a missing max-age gives 0 (always
+ * revalidate).
+ */
+export const parseCacheControl = (value: string | null): number | null => {
+  const directives = (value ?? '')
+    .toLowerCase()
+    .split(',')
+    .map((directive) => directive.trim());
+
+  if (directives.includes('no-store')) {
+    return null;
+  }
+
+  const maxAge = directives
+    .find((directive) => directive.startsWith('max-age='))
+    ?.slice('max-age='.length);
+  const seconds = Number(maxAge);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : 0;
+};
+
+/**
+ * Create a cache holding up to `maxEntries` responses, evicting the least
+ * recently used
+ */
+export const createResponseCache = (maxEntries = 500): ResponseCache => {
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    get(url) {
+      const entry = entries.get(url);
+      if (entry) {
+        // Re-insert to mark as most recently used
+        entries.delete(url);
+        entries.set(url, entry);
+      }
+      return entry;
+    },
+    set(url, entry) {
+      entries.delete(url);
+      entries.set(url, entry);
+      if (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest !== undefined) {
+          entries.delete(oldest);
+        }
+      }
+    },
+    clear() {
+      entries.clear();
+    },
+  };
+};
@@ -0,0 +1,230 @@
+import type { PromptListResponse, PromptResponse } from '../../src/types.ts';
+import {
+  type CacheEntry,
+  createResponseCache,
+  parseCacheControl,
+  type ResponseCache,
+} from './cache.ts';
+import {
+  InternalError,
+  PromptlyError,
+  parseRetryAfter,
+  RateLimitedError,
+  toPromptlyError,
+  UsageLimitExceededError,
+} from './errors.ts';
+
+const DEFAULT_BASE_URL = 'https://api.promptlycms.com/v1';
+
+export type PromptlyClientOptions = {
+  /** API key, or a client token from POST /tokens (prompt reads only) */
+  apiKey: string;
+  baseUrl?: string;
+  /** Retries for network errors, 5xx and burst 429s (default 3) */
+  retries?: number;
+  /** First backoff delay; doubles per attempt, with jitter (default 250) */
+  retryDelayMs?: number;
+  /** Longest wait between attempts. A longer Retry-After isn't waited for (default 10s) */
+  maxRetryDelayMs?: number;
+  /** Response cache, or false to disable (default: 500 entries) */
+  cache?: ResponseCache | false;
+  /** Serve the last cached copy when the API is down or limiting (default true) */
+  fallbackToCache?: boolean;
+  /** Called whenever a cached copy is served because a request failed */
+  onFallback?: (error: unknown, url: string) => void;
+  fetch?: typeof fetch;
+  sleep?: (ms: number) => Promise<void>;
+};
+
+export type GetPromptOptions = {
+  /** Exact version, range (^2.1.0) or "latest" */
+  version?: string;
+  /** Release label, e.g. "production" */
+  label?: string;
+};
+
+export type ListPromptsParams = {
+  includeVersions?: boolean;
+  search?: string;
+  updatedSince?: Date | string;
+  /** name, created_at or updated_at; prefix with - for descending */
+  sort?: string;
+};
+
+export type ListPromptsPageParams = ListPromptsParams & {
+  limit?: number;
+  cursor?: string;
+};
+
+const defaultSleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Whether a failure is worth serving a cached copy for: the API being
+ * unreachable, erroring or rate limiting - not an authoritative 4xx
+ */
+const isTransient = (error: unknown): boolean =>
+  !(error instanceof PromptlyError) ||
+  error instanceof InternalError ||
+  error instanceof RateLimitedError ||
+  error instanceof UsageLimitExceededError ||
+  error.status >= 500;
+
+/**
+ * Create a Promptly API client.
+ *
+ * GET responses are cached following the API's Cache-Control: pinned
+ * versions for 5 minutes, latest/ranges/listings for a minute. Stale entries
+ * are revalidated with If-None-Match, and a 304 costs no quota.
+ */
+export const createPromptlyClient = (options: PromptlyClientOptions) => {
+  const baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const retries = options.retries ?? 3;
+  const retryDelayMs = options.retryDelayMs ?? 250;
+  const maxRetryDelayMs = options.maxRetryDelayMs ?? 10_000;
+  const cache =
+    options.cache === false ? null : (options.cache ?? createResponseCache());
+  const fallbackToCache = options.fallbackToCache ?? true;
+  const fetchImpl = options.fetch ?? fetch;
+  const sleep = options.sleep ?? defaultSleep;
+
+  /**
+   * Exponential backoff with jitter for an attempt (0-based)
+   */
+  const backoff = (attempt: number): number =>
+    Math.min(maxRetryDelayMs, retryDelayMs * 2 ** attempt) *
+    (0.5 + Math.random() / 2);
+
+  /**
+   * Fetch with retries. Returns the last response if retries run out, so
+   * the caller can turn it into a typed error.
+   */
+  const fetchWithRetry = async (
+    url: string,
+    etag: string | null,
+  ): Promise<Response> => {
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${options.apiKey}`,
+    };
+    if (etag) {
+      headers['If-None-Match'] = etag;
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await fetchImpl(url, { headers });
+      } catch (error) {
+        if (attempt >= retries) {
+          throw error;
+        }
+        await sleep(backoff(attempt));
+        continue;
+      }
+
+      if (response.status !== 429 && response.status < 500) {
+        return response;
+      }
+
+      // A monthly quota 429 says to retry next month - that's past the cap
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+      const delay = retryAfter === null ? backoff(attempt) : retryAfter * 1000;
+      if (attempt >= retries || delay > maxRetryDelayMs) {
+        return response;
+      }
+      await response.body?.cancel();
+      await sleep(delay);
+    }
+  };
+
+  /**
+   * GET a path through the cache
+   */
+  const get = async <T>(
+    path: string,
+    params: Record<string, string | undefined> = {},
+  ): Promise<T> => {
+    const url = new URL(`${baseUrl}${path}`);
+    for (const [name, value] of Object.entries(params)) {
+      if (value !== undefined) {
+        url.searchParams.set(name, value);
+      }
+    }
+    const key = url.toString();
+
+    const cached = cache?.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.body as T;
+    }
+
+    try {
+      const response = await fetchWithRetry(key, cached?.etag ?? null);
+      const ttl = parseCacheControl(response.headers.get('Cache-Control'));
+
+      if (response.status === 304 && cached) {
+        cache?.set(key, { ...cached, expiresAt: Date.now() + (ttl ?? 0) });
+        return cached.body as T;
+      }
+
+      if (!response.ok) {
+        throw await toPromptlyError(response);
+      }
+
+      const body = (await response.json()) as T;
+      if (cache && ttl !== null) {
+        const entry: CacheEntry = {
+          body,
+          etag: response.headers.get('ETag'),
+          expiresAt: Date.now() + ttl,
+        };
+        cache.set(key, entry);
+      }
+      return body;
+    } catch (error) {
+      if (cached && fallbackToCache && isTransient(error)) {
+        options.onFallback?.(error, key);
+        return cached.body as T;
+      }
+      throw error;
+    }
+  };
+
+  const listParams = (params: ListPromptsParams) => ({
+    include_versions: params.includeVersions ? 'true' : undefined,
+    q: params.search,
+    updated_since:
+      params.updatedSince instanceof Date
+        ? params.updatedSince.toISOString()
+        : params.updatedSince,
+    sort: params.sort,
+  });
+
+  return {
+    /**
+     * Fetch a prompt (latest, by version or range, or by label)
+     */
+    getPrompt: (promptId: string, { version, label }: GetPromptOptions = {}) =>
+      get<PromptResponse>(`/prompts/${encodeURIComponent(promptId)}`, {
+        version,
+        label,
+      }),
+
+    /**
+     * List all of the organization's prompts
+     */
+    listPrompts: (params: ListPromptsParams = {}) =>
+      get<PromptResponse[]>('/prompts', listParams(params)),
+
+    /**
+     * List one page of prompts; pass `nextCursor` back as `cursor`
+     */
+    listPromptsPage: (params: ListPromptsPageParams = {}) =>
+      get<PromptListResponse>('/prompts', {
+        ...listParams(params),
+        limit: String(params.limit ?? 50),
+        cursor: params.cursor,
+      }),
+  };
+};
+
+export type PromptlyClient = ReturnType<typeof createPromptlyClient>;
@@ -0,0 +1,156 @@
+import type { ErrorResponse, RateLimitResponse } from '../../src/types.ts';
+
+/**
+ * Base class for every error response from the API. Catch this for any API
+ * error, or a subclass for a specific `code`.
+ */
+export class PromptlyError extends Error {
+  readonly code: string;
+  readonly status: number;
+
+  constructor(body: ErrorResponse, status: number) {
+    super(body.error);
+    this.name = new.target.name;
+    this.code = body.code;
+    this.status = status;
+  }
+}
+
+// 400
+
+export class BadRequestError extends PromptlyError {}
+
+export class UnsupportedApiVersionError extends BadRequestError {}
+
+// 401 / 403
+
+export class UnauthorizedError extends PromptlyError {}
+
+export class InvalidKeyError extends UnauthorizedError {}
+
+export class KeyDisabledError extends UnauthorizedError {}
+
+export class KeyExpiredError extends UnauthorizedError {}
+
+export class KeyRevokedError extends UnauthorizedError {}
+
+export class TokenExpiredError extends UnauthorizedError {}
+
+export class InvalidTokenSignatureError extends UnauthorizedError {}
+
+export class ForbiddenError extends PromptlyError {}
+
+export class OriginNotAllowedError extends ForbiddenError {}
+
+export class IpNotAllowedError extends ForbiddenError {}
+
+export class TokenOutOfScopeError extends ForbiddenError {}
+
+// 404
+
+export class NotFoundError extends PromptlyError {}
+
+export class VersionNotFoundError extends NotFoundError {}
+
+export class LabelNotFoundError extends NotFoundError {}
+
+// 429
+
+/**
+ * Monthly quota used up. Not retried: it only resets at `usage.resetAt`.
+ */
+export class UsageLimitExceededError extends PromptlyError {
+  readonly usage: RateLimitResponse['usage'];
+  readonly upgradeUrl: string;
+
+  constructor(body: RateLimitResponse, status: number) {
+    super(body, status);
+    this.usage = body.usage;
+    this.upgradeUrl = body.upgradeUrl;
+  }
+}
+
+/**
+ * Burst limit hit. `retryAfter` is in seconds.
+ */
+export class RateLimitedError extends PromptlyError {
+  readonly retryAfter: number | null;
+
+  constructor(body: ErrorResponse, status: number, retryAfter: number | null) {
+    super(body, status);
+    this.retryAfter = retryAfter;
+  }
+}
+
+// 5xx
+
+export class InternalError extends PromptlyError {}
+
+const ERROR_CLASSES: Record<
+  string,
+  new (
+    body: ErrorResponse,
+    status: number,
+  ) => PromptlyError
+> = {
+  BAD_REQUEST: BadRequestError,
+  UNSUPPORTED_API_VERSION: UnsupportedApiVersionError,
+  UNAUTHORIZED: UnauthorizedError,
+  INVALID_KEY: InvalidKeyError,
+  DISABLED: KeyDisabledError,
+  EXPIRED: KeyExpiredError,
+  REVOKED: KeyRevokedError,
+  TOKEN_EXPIRED: TokenExpiredError,
+  INVALID_TOKEN_SIGNATURE: InvalidTokenSignatureError,
+  FORBIDDEN: ForbiddenError,
+  ORIGIN_NOT_ALLOWED: OriginNotAllowedError,
+  IP_NOT_ALLOWED: IpNotAllowedError,
+  TOKEN_OUT_OF_SCOPE: TokenOutOfScopeError,
+  NOT_FOUND: NotFoundError,
+  VERSION_NOT_FOUND: VersionNotFoundError,
+  LABEL_NOT_FOUND: LabelNotFoundError,
+  INTERNAL_ERROR: InternalError,
+};
+
+/**
+ * Parse Retry-After (seconds) into a number, or null
+ */
+export const parseRetryAfter = (value: string | null): number | null => {
+  if (value === null || !/^\d+$/.test(value.trim())) {
+    return null;
+  }
+  return Number(value);
+};
+
+/**
+ * Build the typed error for an error response
+ */
+export const toPromptlyError = async (
+  response: Response,
+): Promise<PromptlyError> => {
+  let body: ErrorResponse;
+  try {
+    body = (await response.json()) as ErrorResponse;
+  } catch {
+    body = { error: response.statusText, code: 'UNKNOWN' };
+  }
+
+  if (body.code === 'USAGE_LIMIT_EXCEEDED') {
+    return new UsageLimitExceededError(
+      body as RateLimitResponse,
+      response.status,
+    );
+  }
+  if (body.code === 'RATE_LIMITED') {
+    return new RateLimitedError(
+      body,
+      response.status,
+      parseRetryAfter(response.headers.get('Retry-After')),
+    );
+  }
+
+  const ErrorClass =
+    ERROR_CLASSES[body.code] ??
+    (response.status >= 500 ? InternalError : PromptlyError);
+  return new ErrorClass(body, response.status);
+};
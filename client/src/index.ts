@@ -0,0 +1,42 @@
+export type {
+  ErrorResponse,
+  PromptListResponse,
+  PromptResponse,
+  PublishedVersion,
+  RateLimitResponse,
+} from '../../src/types.ts';
+export {
+  type CacheEntry,
+  createResponseCache,
+  type ResponseCache,
+} from './cache.ts';
+export {
+  createPromptlyClient,
+  type GetPromptOptions,
+  type ListPromptsPageParams,
+  type ListPromptsParams,
+  type PromptlyClient,
+  type PromptlyClientOptions,
+} from './client.ts';
+export {
+  BadRequestError,
+  ForbiddenError,
+  InternalError,
+  InvalidKeyError,
+  InvalidTokenSignatureError,
+  IpNotAllowedError,
+  KeyDisabledError,
+  KeyExpiredError,
+  KeyRevokedError,
+  LabelNotFoundError,
+  NotFoundError,
+  OriginNotAllowedError,
+  PromptlyError,
+  RateLimitedError,
+  TokenExpiredError,
+  TokenOutOfScopeError,
+  UnauthorizedError,
+  UnsupportedApiVersionError,
+  UsageLimitExceededError,
+  VersionNotFoundError,
+} from './errors.ts';
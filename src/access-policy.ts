@@ -0,0 +1,280 @@
+import { getFromCache, L2_TTL, setInCache, singleFlight } from './cache.ts';
+import { timeSpan } from './request-context.ts';
+import type { AccessPolicy, ClientInfo, Env, RequestContext } from './types.ts';
+
+/**
+ * Parse dotted-quad IPv4 into 4 bytes
+ */
+const parseIpv4 = (ip: string): number[] | null => {
+  const parts = ip.split('.');
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part))) {
+    return null;
+  }
+  const bytes = parts.map(Number);
+  return bytes.every((byte) => byte <= 255) ? bytes : null;
+};
+
+/**
+ * Parse the colon groups on one side of a `::`. Only the last group of the
+ * address may be an embedded IPv4 address.
+ */
+const parseIpv6Groups = (part: string, last: boolean): number[] | null => {
+  if (part === '') {
+    return [];
+  }
+  const pieces = part.split(':');
+  const words: number[] = [];
+  for (const [i, piece] of pieces.entries()) {
+    if (last && i === pieces.length - 1 && piece.includes('.')) {
+      const embedded = parseIpv4(piece);
+      if (!embedded) {
+        return null;
+      }
+      const [a = 0, b = 0, c = 0, d = 0] = embedded;
+      words.push((a << 8) | b, (c << 8) | d);
+    } else if (/^[0-9a-f]{1,4}$/i.test(piece)) {
+      words.push(Number.parseInt(piece, 16));
+    } else {
+      return null;
+    }
+  }
+  return words;
+};
+
+/**
+ * Parse IPv6 (with `::` compression) into 16 bytes
+ */
+const parseIpv6 = (ip: string): number[] | null => {
+  const halves = ip.split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+  const [first = '', second] = halves;
+  const head = parseIpv6Groups(first, second === undefined);
+  const tail = second === undefined ? [] : parseIpv6Groups(second, true);
+  if (!head || !tail) {
+    return null;
+  }
+
+  const missing = 8 - head.length - tail.length;
+  if (second === undefined ? missing !== 0 : missing < 1) {
+    return null;
+  }
+  return [...head, ...new Array<number>(missing).fill(0), ...tail].flatMap(
+    (word) => [word >> 8, word & 0xff],
+  );
+};
+
+/**
+ * Parse an IP address into bytes: 4 for IPv4 (including IPv4-mapped IPv6
+ * such as ::ffff:192.0.2.1), 16 for IPv6
+ */
+export const parseIp = (ip: string): number[] | null => {
+  if (!ip.includes(':')) {
+    return parseIpv4(ip);
+  }
+  const bytes = parseIpv6(ip);
+  if (
+    bytes?.slice(0, 10).every((byte) => byte === 0) &&
+    bytes[10] === 0xff &&
+    bytes[11] === 0xff
+  ) {
+    return bytes.slice(12);
+  }
+  return bytes;
+};
+
+/**
+ * Check an IP against a CIDR range ("203.0.113.0/24", "2001:db8::/32") or
+ * a single address. Malformed ranges match nothing.
+ */
+export const ipInCidr = (ip: string, cidr: string): boolean => {
+  const [range = '', prefixText, ...rest] = cidr.trim().split('/');
+  const address = parseIp(ip);
+  const network = parseIp(range);
+  if (
+    !address ||
+    !network ||
+    address.length !== network.length ||
+    rest.length > 0 ||
+    (prefixText !== undefined && !/^\d{1,3}$/.test(prefixText))
+  ) {
+    return false;
+  }
+
+  const bits = network.length * 8;
+  const prefix = prefixText === undefined ? bits : Number(prefixText);
+  if (prefix > bits) {
+    return false;
+  }
+
+  for (let i = 0; i < network.length; i++) {
+    const maskBits = Math.min(8, Math.max(0, prefix - i * 8));
+    const mask = (0xff << (8 - maskBits)) & 0xff;
+    if (((address[i] ?? 0) & mask) !== ((network[i] ?? 0) & mask)) {
+      return false;
+    }
+  }
+  return true;
+};
+
+/**
+ * Canonical form of an origin for comparison (lowercase, no default port),
+ * or null if it isn't a URL origin
+ */
+const normalizeOrigin = (origin: string): string | null => {
+  try {
+    const { origin: normalized } = new URL(origin);
+    return normalized === 'null' ? null : normalized;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Read a string list from metadata. A list that is present but malformed
+ * becomes empty, so a broken restriction denies rather than allows.
+ */
+const stringList = (value: unknown): string[] | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : [];
+};
+
+/**
+ * Read allowedOrigins and allowedIps from a Better Auth metadata column.
+ * Returns null when neither is set.
+ */
+export const parseAccessPolicy = (
+  metadata: string | null,
+): AccessPolicy | null => {
+  if (!metadata) {
+    return null;
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(metadata);
+  } catch {
+    return null;
+  }
+  if (typeof parsed !== 'object' || parsed === null) {
+    return null;
+  }
+
+  const record = parsed as Record<string, unknown>;
+  const allowedOrigins = stringList(record.allowedOrigins);
+  const allowedIps = stringList(record.allowedIps);
+  if (!allowedOrigins && !allowedIps) {
+    return null;
+  }
+  return {
+    ...(allowedOrigins ? { allowedOrigins } : {}),
+    ...(allowedIps ? { allowedIps } : {}),
+  };
+};
+
+/**
+ * Check a client against every policy that applies (the key's and its
+ * organization's); each list that is set must allow the request. A
+ * restricted origin also needs an Origin header, and a restricted IP range
+ * needs CF-Connecting-IP.
+ */
+export const checkAccess = (
+  policies: (AccessPolicy | null | undefined)[],
+  client: ClientInfo,
+): 'ORIGIN_NOT_ALLOWED' | 'IP_NOT_ALLOWED' | null => {
+  const origin = client.origin ? normalizeOrigin(client.origin) : null;
+  const { ip } = client;
+
+  for (const policy of policies) {
+    if (
+      policy?.allowedOrigins &&
+      !(
+        origin &&
+        policy.allowedOrigins.some(
+          (allowed) => normalizeOrigin(allowed) === origin,
+        )
+      )
+    ) {
+      return 'ORIGIN_NOT_ALLOWED';
+    }
+  }
+
+  for (const policy of policies) {
+    if (
+      policy?.allowedIps &&
+      !(ip && policy.allowedIps.some((cidr) => ipInCidr(ip, cidr)))
+    ) {
+      return 'IP_NOT_ALLOWED';
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Whether any policy restricts origins, so CORS must echo the origin
+ * instead of allowing every one
+ */
+export const restrictsOrigin = (
+  policies: (AccessPolicy | null | undefined)[],
+): boolean => policies.some((policy) => policy?.allowedOrigins !== undefined);
+
+/**
+ * Check a client against its policies and record the CORS origin to send:
+ * the request's own when origins are restricted and it is allowed, none
+ * when it was refused
+ */
+export const enforceAccess = (
+  requestContext: RequestContext,
+  policies: (AccessPolicy | null | undefined)[],
+  client: ClientInfo,
+): 'ORIGIN_NOT_ALLOWED' | 'IP_NOT_ALLOWED' | null => {
+  const denied = checkAccess(policies, client);
+  if (restrictsOrigin(policies)) {
+    requestContext.corsOrigin =
+      denied === 'ORIGIN_NOT_ALLOWED' ? null : client.origin;
+  }
+  return denied;
+};
+
+/**
+ * Load an organization's access policy through the tiered cache. Cached as
+ * `{}` when unrestricted so the miss isn't repeated; the CMS purges it with
+ * organization.updated.
+ */
+export const getOrganizationPolicy = async (
+  env: Env,
+  requestContext: RequestContext,
+  organizationId: string,
+): Promise<AccessPolicy> => {
+  const cacheKey = `policy:${organizationId}`;
+  const cached = await getFromCache<AccessPolicy>(
+    env.PROMPTS_CACHE,
+    requestContext,
+    cacheKey,
+  );
+  if (cached) {
+    return cached;
+  }
+
+  return singleFlight(cacheKey, async () => {
+    const result = await timeSpan(
+      requestContext,
+      { layer: 'd1', name: 'policy' },
+      () =>
+        env.promptly
+          .prepare('SELECT metadata FROM organization WHERE id = ? LIMIT 1')
+          .bind(organizationId)
+          .first<{ metadata: string | null }>(),
+    );
+    const policy = parseAccessPolicy(result?.metadata ?? null) ?? {};
+    await setInCache(env.PROMPTS_CACHE, requestContext, cacheKey, policy, {
+      kvTtl: L2_TTL,
+    });
+    return policy;
+  });
+};
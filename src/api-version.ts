@@ -0,0 +1,90 @@
+import type { ApiVersion, ApiVersionInfo, Route } from './types.ts';
+
+/**
+ * Supported API versions. To retire one, set `deprecatedAt` (clients start
+ * seeing Deprecation/Sunset headers) and later `sunsetAt`.
+ */
+export const API_VERSIONS: Record<ApiVersion, ApiVersionInfo> = {
+  v1: {},
+};
+
+// Version served for unversioned paths without an Accept-Version header
+export const DEFAULT_API_VERSION: ApiVersion = 'v1';
+
+// Matches a /v{n} path prefix
+const PATH_VERSION_PATTERN = /^\/(v\d+)(?=\/|$)/;
+
+// Accept-Version takes "1" or "v1"
+const HEADER_VERSION_PATTERN = /^v?(\d+)$/i;
+
+/**
+ * Check that a version string is one we serve
+ */
+const isApiVersion = (value: string): value is ApiVersion =>
+  Object.hasOwn(API_VERSIONS, value);
+
+/**
+ * Resolve the API version for a request and strip its path prefix.
+ * A /v{n} prefix wins over the Accept-Version header; unversioned paths are
+ * aliases for the default version.
+ */
+export const resolveApiVersion = (
+  pathname: string,
+  acceptVersion: string | null,
+):
+  | { version: ApiVersion; pathname: string }
+  | { error: string; code: string } => {
+  const unsupported = (requested: string) => ({
+    error: `Unsupported API version ${requested}. Use one of: ${Object.keys(API_VERSIONS).join(', ')}`,
+    code: 'UNSUPPORTED_API_VERSION',
+  });
+
+  const prefix = pathname.match(PATH_VERSION_PATTERN)?.[1];
+  if (prefix) {
+    if (!isApiVersion(prefix)) {
+      return unsupported(prefix);
+    }
+    return {
+      version: prefix,
+      pathname: pathname.slice(prefix.length + 1) || '/',
+    };
+  }
+
+  if (acceptVersion) {
+    const number = acceptVersion.trim().match(HEADER_VERSION_PATTERN)?.[1];
+    const version = `v${number}`;
+    if (!number || !isApiVersion(version)) {
+      return unsupported(acceptVersion.trim());
+    }
+    return { version, pathname };
+  }
+
+  return { version: DEFAULT_API_VERSION, pathname };
+};
+
+/**
+ * Routes served on an API version
+ */
+export const routesForVersion = (
+  routes: Route[],
+  version: ApiVersion,
+): Route[] =>
+  routes.filter((route) => !route.versions || route.versions.includes(version));
+
+/**
+ * Headers for every response on a version: the version served plus
+ * Deprecation (RFC 9745) and Sunset (RFC 8594) once it is being retired
+ */
+export const apiVersionHeaders = (
+  version: ApiVersion,
+): Record<string, string> => {
+  const { deprecatedAt, sunsetAt } = API_VERSIONS[version];
+  const headers: Record<string, string> = { 'API-Version': version };
+  if (deprecatedAt) {
+    headers.Deprecation = `@${Math.floor(Date.parse(deprecatedAt) / 1000)}`;
+  }
+  if (sunsetAt) {
+    headers.Sunset = new Date(sunsetAt).toUTCString();
+  }
+  return headers;
+};
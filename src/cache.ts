@@ -1,74 +1,294 @@
 import { memoryCache } from './memory-cache.ts';
-import type { Env } from './types.ts';
+import { recordSpan, timeSpan } from './request-context.ts';
+import type {
+  CacheLookup,
+  CacheMetadata,
+  CacheRevalidation,
+  CacheWriteOptions,
+  Env,
+  RequestContext,
+} from './types.ts';
 
 const L1_TTL = 300; // 5 minutes for in-memory cache
 const L2_TTL = 300; // 5 minutes for KV cache (default)
 
+// TTL for negative entries (L1 and L2): long enough to absorb a scanner or
+// a client retrying a bad key, short enough that nothing stays hidden long
+const NEGATIVE_TTL = 60;
+
 /**
- * Retrieve a value from tiered cache (L1 in-memory, L2 KV)
+ * Span name for a cache key: its namespace ("apikey", "prompt", ...), so
+ * key hashes never reach Server-Timing or metrics
  */
-export const getFromCache = async <T>(
+const spanName = (key: string): string => key.slice(0, key.indexOf(':'));
+
+// L1 entries carry the time they go stale (null = fresh until they expire)
+type L1Entry<T> = {
+  value: T;
+  staleAt: number | null;
+};
+
+// Keys with a background refresh in flight in this isolate
+const refreshing = new Set<string>();
+
+// Loads in flight in this isolate, by cache key
+const inFlight = new Map<string, Promise<unknown>>();
+
+/**
+ * Run `load` for a missing cache entry once per isolate: concurrent misses
+ * for the same key share the first caller's D1 read and cache write.
+ * Only the first caller's request records the load's spans.
+ */
+export const singleFlight = <T>(
+  key: string,
+  load: () => Promise<T>,
+): Promise<T> => {
+  const pending = inFlight.get(key);
+  if (pending) {
+    return pending as Promise<T>;
+  }
+  const promise = load().finally(() => {
+    inFlight.delete(key);
+  });
+  inFlight.set(key, promise);
+  return promise;
+};
+
+/**
+ * Refresh a stale entry after the response, once per key per isolate
+ */
+const revalidate = (key: string, { ctx, refresh }: CacheRevalidation): void => {
+  if (refreshing.has(key)) {
+    return;
+  }
+  refreshing.add(key);
+  ctx.waitUntil(
+    refresh()
+      .catch((error) => {
+        console.error(
+          JSON.stringify({
+            event: 'cache_refresh_error',
+            key: spanName(key),
+            error: error instanceof Error ? error.message : String(error),
+          }),
+        );
+      })
+      .finally(() => {
+        refreshing.delete(key);
+      }),
+  );
+};
+
+const isStale = (staleAt: number | null | undefined): boolean =>
+  staleAt != null && Date.now() >= staleAt;
+
+/**
+ * L1 lookup: a fresh entry, or a stale one being revalidated. Null means
+ * the caller should go on to L2.
+ */
+const readL1 = <T>(
+  requestContext: RequestContext,
+  key: string,
+  revalidation?: CacheRevalidation,
+): { value: T } | null => {
+  const l1Start = performance.now();
+  const l1 = memoryCache.get<L1Entry<T>>(key);
+  const l1Stale = l1 !== null && isStale(l1.staleAt);
+  recordSpan(
+    requestContext,
+    {
+      layer: 'l1',
+      name: spanName(key),
+      outcome: l1 === null ? 'miss' : l1Stale ? 'stale' : 'hit',
+    },
+    l1Start,
+  );
+  if (l1 === null || (l1Stale && !revalidation)) {
+    return null;
+  }
+  if (l1Stale && revalidation) {
+    revalidate(key, revalidation);
+  }
+  return { value: l1.value };
+};
+
+/**
+ * L2 lookup (another isolate may have refreshed a stale L1 entry),
+ * promoting a hit to L1
+ */
+const readL2 = async <T>(
   kv: Env['PROMPTS_CACHE'],
+  requestContext: RequestContext,
   key: string,
+  revalidation?: CacheRevalidation,
 ): Promise<T | null> => {
-  // L1: In-memory cache
-  const l1 = memoryCache.get<T>(key);
-  if (l1 !== null) {
-    console.log(JSON.stringify({ event: 'cache_hit', key, layer: 'L1' }));
-    return l1;
+  const l2Start = performance.now();
+  const { value: l2, metadata } = await kv.getWithMetadata<T, CacheMetadata>(
+    key,
+    'json',
+  );
+  const l2Stale = l2 !== null && isStale(metadata?.staleAt);
+  recordSpan(
+    requestContext,
+    {
+      layer: 'l2',
+      name: spanName(key),
+      outcome: l2 === null ? 'miss' : l2Stale ? 'stale' : 'hit',
+    },
+    l2Start,
+  );
+  if (l2 === null || (l2Stale && !revalidation)) {
+    return null;
   }
 
-  // L2: KV cache
-  const l2 = (await kv.get(key, 'json')) as T | null;
-  if (l2 !== null) {
-    console.log(JSON.stringify({ event: 'cache_hit', key, layer: 'L2' }));
-    // Promote to L1
-    memoryCache.set(key, l2, L1_TTL);
-    return l2;
+  // Promote to L1, keeping a shorter L1 TTL the writer asked for
+  memoryCache.set<L1Entry<T>>(
+    key,
+    { value: l2, staleAt: metadata?.staleAt ?? null },
+    metadata?.l1Ttl ?? L1_TTL,
+  );
+  if (l2Stale && revalidation) {
+    revalidate(key, revalidation);
   }
-
-  console.log(JSON.stringify({ event: 'cache_miss', key }));
-  return null;
+  return l2;
 };
 
+/**
+ * Retrieve a value from tiered cache (L1 in-memory, L2 KV). An entry past
+ * its soft TTL is returned with `revalidation` and refreshed in the
+ * background; without it, it counts as a miss.
+ */
+export const getFromCache = async <T>(
+  kv: Env['PROMPTS_CACHE'],
+  requestContext: RequestContext,
+  key: string,
+  revalidation?: CacheRevalidation,
+): Promise<T | null> =>
+  readL1<T>(requestContext, key, revalidation)?.value ??
+  readL2<T>(kv, requestContext, key, revalidation);
+
 /**
  * Store a value in tiered cache
  * @param kv - KV namespace
+ * @param requestContext - Context the L2 write is timed against
  * @param key - Cache key
  * @param value - Value to cache
- * @param kvTtl - KV TTL in seconds. 0 = infinite, undefined = skip KV write (L1 only)
+ * @param options - TTLs; with `staleTtl`, the entry goes stale after
+ *   `kvTtl` and both tiers keep it `staleTtl` longer for revalidation
  */
 export const setInCache = async <T>(
   kv: Env['PROMPTS_CACHE'],
+  requestContext: RequestContext,
   key: string,
   value: T,
-  kvTtl?: number,
+  { kvTtl, l1Ttl = L1_TTL, staleTtl = 0 }: CacheWriteOptions = {},
 ): Promise<void> => {
+  const staleAt = staleTtl > 0 && kvTtl ? Date.now() + kvTtl * 1000 : null;
+
   // Always write to L1
-  memoryCache.set(key, value, L1_TTL);
+  memoryCache.set<L1Entry<T>>(key, { value, staleAt }, l1Ttl + staleTtl);
 
   // Only write to L2 (KV) if kvTtl is provided
   if (kvTtl !== undefined) {
-    const options = kvTtl > 0 ? { expirationTtl: kvTtl } : undefined;
-    await kv.put(key, JSON.stringify(value), options);
-    console.log(
-      JSON.stringify({
-        event: 'cache_set',
-        key,
-        layer: 'L1+L2',
-        kvTtl: kvTtl || 'infinite',
-      }),
-    );
-  } else {
-    console.log(
-      JSON.stringify({
-        event: 'cache_set',
-        key,
-        layer: 'L1',
-      }),
+    const options: KVNamespacePutOptions =
+      kvTtl > 0 ? { expirationTtl: kvTtl + staleTtl } : {};
+    const metadata: CacheMetadata = {
+      ...(staleAt !== null ? { staleAt } : {}),
+      ...(l1Ttl !== L1_TTL ? { l1Ttl } : {}),
+    };
+    if (Object.keys(metadata).length > 0) {
+      options.metadata = metadata;
+    }
+    await timeSpan(
+      requestContext,
+      { layer: 'l2', name: spanName(key), outcome: 'put' },
+      () => kv.put(key, JSON.stringify(value), options),
     );
   }
 };
 
+/**
+ * Key of the negative entry recording that `key`'s row doesn't exist.
+ * Negatives live in their own namespace, so a positive entry is never
+ * overwritten and invalidation can purge them by prefix.
+ */
+export const negativeKey = (key: string): string => `missing:${key}`;
+
+/**
+ * getFromCache for keys with negative entries. The `missing:` entry is
+ * read alongside the L2 lookup rather than after it, so a real miss costs
+ * one KV round trip before D1, not two. A positive entry wins over a
+ * negative one left by an earlier miss.
+ */
+export const getFromCacheOrMissing = async <T>(
+  kv: Env['PROMPTS_CACHE'],
+  requestContext: RequestContext,
+  key: string,
+  revalidation?: CacheRevalidation,
+): Promise<CacheLookup<T>> => {
+  const l1 = readL1<T>(requestContext, key, revalidation);
+  if (l1) {
+    return { value: l1.value, knownMissing: false };
+  }
+  const missingKey = negativeKey(key);
+  if (readL1<true>(requestContext, missingKey)) {
+    return { value: null, knownMissing: true };
+  }
+  const [value, missing] = await Promise.all([
+    readL2<T>(kv, requestContext, key, revalidation),
+    readL2<true>(kv, requestContext, missingKey),
+  ]);
+  return { value, knownMissing: value === null && missing !== null };
+};
+
+/**
+ * Record that D1 has no row for `key`, for NEGATIVE_TTL
+ */
+export const rememberMissing = (
+  kv: Env['PROMPTS_CACHE'],
+  requestContext: RequestContext,
+  key: string,
+): Promise<void> =>
+  setInCache(kv, requestContext, negativeKey(key), true, {
+    kvTtl: NEGATIVE_TTL,
+    l1Ttl: NEGATIVE_TTL,
+  });
+
+/**
+ * Remove keys from both cache tiers
+ */
+export const deleteFromCache = async (
+  kv: Env['PROMPTS_CACHE'],
+  keys: string[],
+): Promise<void> => {
+  for (const key of keys) {
+    memoryCache.delete(key);
+  }
+  await Promise.all(keys.map((key) => kv.delete(key)));
+  console.log(JSON.stringify({ event: 'cache_delete', keys }));
+};
+
+/**
+ * Remove every key starting with a prefix from both cache tiers.
+ * KV listing is eventually consistent, so very recent writes may survive.
+ */
+export const deleteByPrefixFromCache = async (
+  kv: Env['PROMPTS_CACHE'],
+  prefix: string,
+): Promise<void> => {
+  memoryCache.deleteByPrefix(prefix);
+
+  let cursor: string | undefined;
+  let deleted = 0;
+  do {
+    const page = await kv.list({ prefix, cursor });
+    await Promise.all(page.keys.map(({ name }) => kv.delete(name)));
+    deleted += page.keys.length;
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  console.log(JSON.stringify({ event: 'cache_delete', prefix, deleted }));
+};
+
 // Export default TTL for use by callers
 export { L2_TTL };
@@ -0,0 +1,246 @@
+import { parseRange } from './semver.ts';
+import type {
+  ApiKeyResult,
+  ClientTokenClaims,
+  ClientTokenScope,
+  TokenRequest,
+} from './types.ts';
+
+// Issuer claim, so tokens signed with the same secret for another purpose
+// aren't accepted
+const TOKEN_ISSUER = 'promptly-api';
+
+// Lifetime in seconds when the request doesn't set one, and the bounds
+export const DEFAULT_TOKEN_TTL = 300;
+export const MIN_TOKEN_TTL = 30;
+export const MAX_TOKEN_TTL = 900;
+
+// Upper bound on prompts per token
+export const MAX_TOKEN_PROMPTS = 20;
+
+// Compact JWS: three base64url segments. API keys never contain dots.
+const TOKEN_PATTERN = /^[\w-]+\.[\w-]+\.[\w-]+$/;
+
+const HEADER = { alg: 'HS256', typ: 'JWT' };
+
+const encoder = new TextEncoder();
+
+const base64UrlEncode = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const base64UrlDecode = (text: string): Uint8Array | null => {
+  try {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+};
+
+const encodeJson = (value: unknown): string =>
+  base64UrlEncode(encoder.encode(JSON.stringify(value)));
+
+const decodeJson = (text: string): unknown => {
+  const bytes = base64UrlDecode(text);
+  if (!bytes) {
+    return null;
+  }
+  try {
+    return JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    return null;
+  }
+};
+
+const importSecret = (secret: string, usage: 'sign' | 'verify') =>
+  crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    [usage],
+  );
+
+/**
+ * Check whether a bearer credential is a client token rather than an API key
+ */
+export const isClientToken = (credential: string): boolean =>
+  TOKEN_PATTERN.test(credential);
+
+/**
+ * Sign claims as an HS256 JWT
+ */
+export const signClientToken = async (
+  secret: string,
+  claims: ClientTokenClaims,
+): Promise<string> => {
+  const signingInput = `${encodeJson(HEADER)}.${encodeJson(claims)}`;
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    await importSecret(secret, 'sign'),
+    encoder.encode(signingInput),
+  );
+  return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`;
+};
+
+/**
+ * Validate one prompt entry of a token scope
+ */
+const isTokenScope = (value: unknown): value is ClientTokenScope => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const { promptId, versions } = value as Record<string, unknown>;
+  return (
+    typeof promptId === 'string' &&
+    promptId.length > 0 &&
+    // Scopes match IDs exactly; * would read as a pattern
+    !promptId.includes('*') &&
+    (versions === undefined ||
+      (Array.isArray(versions) &&
+        versions.length > 0 &&
+        versions.every(
+          (range) =>
+            typeof range === 'string' &&
+            range.trim() !== '' &&
+            parseRange(range) !== null,
+        )))
+  );
+};
+
+/**
+ * Validate decoded claims
+ */
+const isClaims = (value: unknown): value is ClientTokenClaims => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const claims = value as Record<string, unknown>;
+  return (
+    claims.iss === TOKEN_ISSUER &&
+    typeof claims.sub === 'string' &&
+    typeof claims.kh === 'string' &&
+    typeof claims.org === 'string' &&
+    typeof claims.iat === 'number' &&
+    typeof claims.exp === 'number' &&
+    Array.isArray(claims.prompts) &&
+    claims.prompts.every(isTokenScope)
+  );
+};
+
+/**
+ * Verify a client token's signature and expiry. Needs no D1 or cache
+ * lookup: the issuing key and organization travel in the claims. The
+ * caller still checks that the issuing key is usable (see verifyKeyHash).
+ */
+export const verifyClientToken = async (
+  secret: string | undefined,
+  token: string,
+): Promise<ApiKeyResult> => {
+  const [header = '', payload = '', signature = ''] = token.split('.');
+  const signatureBytes = base64UrlDecode(signature);
+  const decodedHeader = decodeJson(header) as Record<string, unknown> | null;
+  if (
+    !secret ||
+    !signatureBytes ||
+    decodedHeader?.alg !== HEADER.alg ||
+    !(await crypto.subtle.verify(
+      'HMAC',
+      await importSecret(secret, 'verify'),
+      signatureBytes,
+      encoder.encode(`${header}.${payload}`),
+    ))
+  ) {
+    return { valid: false, code: 'INVALID_TOKEN_SIGNATURE' };
+  }
+
+  const claims = decodeJson(payload);
+  if (!isClaims(claims)) {
+    return { valid: false, code: 'INVALID_TOKEN_SIGNATURE' };
+  }
+
+  if (claims.exp * 1000 <= Date.now()) {
+    return { valid: false, code: 'TOKEN_EXPIRED' };
+  }
+
+  return {
+    valid: true,
+    keyId: claims.sub,
+    keyHash: claims.kh,
+    organizationId: claims.org,
+    permissions: Object.fromEntries(
+      claims.prompts.map(({ promptId }) => [`prompt:${promptId}`, ['read']]),
+    ),
+    scope: { type: 'token', prompts: claims.prompts },
+  };
+};
+
+/**
+ * Parse the POST /tokens body:
+ * `{ "prompts": [{ "promptId": "...", "versions"?: ["^2.0.0"] }], "expiresIn"?: 300 }`
+ */
+export const parseTokenRequest = (body: string): TokenRequest | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return null;
+  }
+
+  if (typeof parsed !== 'object' || parsed === null) {
+    return null;
+  }
+  const { prompts, expiresIn = DEFAULT_TOKEN_TTL } = parsed as Record<
+    string,
+    unknown
+  >;
+  if (
+    !Array.isArray(prompts) ||
+    prompts.length === 0 ||
+    prompts.length > MAX_TOKEN_PROMPTS ||
+    !prompts.every(isTokenScope) ||
+    typeof expiresIn !== 'number' ||
+    !Number.isInteger(expiresIn) ||
+    expiresIn < MIN_TOKEN_TTL ||
+    expiresIn > MAX_TOKEN_TTL
+  ) {
+    return null;
+  }
+
+  return {
+    prompts: prompts.map(({ promptId, versions }) => ({
+      promptId,
+      ...(versions ? { versions } : {}),
+    })),
+    expiresIn,
+  };
+};
+
+/**
+ * Claims for a token issued by an API key
+ */
+export const buildClaims = (
+  {
+    keyId,
+    keyHash,
+    organizationId,
+  }: Pick<
+    Extract<ApiKeyResult, { valid: true }>,
+    'keyId' | 'keyHash' | 'organizationId'
+  >,
+  { prompts, expiresIn }: TokenRequest,
+): ClientTokenClaims => {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    iss: TOKEN_ISSUER,
+    sub: keyId,
+    kh: keyHash,
+    org: organizationId,
+    prompts,
+    iat: now,
+    exp: now + expiresIn,
+  };
+};
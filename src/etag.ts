@@ -0,0 +1,33 @@
+/**
+ * Compute a strong ETag from a serialized response body (SHA-256, base64url)
+ */
+export const computeEtag = async (body: string): Promise<string> => {
+  const hashBuffer = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(body),
+  );
+  const base64 = btoa(String.fromCharCode(...new Uint8Array(hashBuffer)));
+  const hash = base64
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+  return `"${hash}"`;
+};
+
+/**
+ * Check an If-None-Match header against an ETag.
+ * Uses weak comparison as required for If-None-Match (RFC 9110 13.1.2).
+ */
+export const matchesIfNoneMatch = (
+  header: string | null,
+  etag: string,
+): boolean => {
+  if (!header) {
+    return false;
+  }
+  if (header.trim() === '*') {
+    return true;
+  }
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, '');
+  return header.split(',').some((tag) => opaque(tag) === opaque(etag));
+};
@@ -1,17 +1,62 @@
-import { getFromCache, L2_TTL, setInCache } from './cache.ts';
+import {
+  deleteFromCache,
+  getFromCache,
+  getFromCacheOrMissing,
+  L2_TTL,
+  rememberMissing,
+  setInCache,
+  singleFlight,
+} from './cache.ts';
+import { encodeCursor, formatSort } from './list-options.ts';
+import { inScope, scopeCondition, versionInScope } from './permissions.ts';
+import { timeSpan } from './request-context.ts';
+import { normalizeRange, parseRange, parseVersion } from './semver.ts';
 import type {
+  CachedLabel,
   CachedPrompt,
   CachedVersion,
+  CacheRevalidation,
+  CacheWriteOptions,
   Env,
+  ListPromptsOptions,
   PromptRecord,
   PromptResponse,
   PromptVersionRecord,
   PublishedVersion,
+  RequestContext,
+  ResourceScope,
+  VersionSelector,
 } from './types.ts';
 
 // TTL for "latest" version cache - use same as L2 default (5 min)
 const LATEST_VERSION_TTL = L2_TTL;
 
+// How long past its TTL prompt metadata or "latest" may be served while it
+// refreshes in the background. Publishing purges both via the webhook.
+const STALE_TTL = 3600;
+
+// Upper bound on prompts per batch request
+export const MAX_BATCH_SIZE = 20;
+
+const PROMPT_CACHE_OPTIONS: CacheWriteOptions = {
+  kvTtl: L2_TTL,
+  staleTtl: STALE_TTL,
+};
+
+// TTL for range results (L1 and L2) - a new matching release should be
+// picked up quickly, like "latest", but ranges are less hot so keep it short
+const RANGE_VERSION_TTL = 60;
+
+// Version tags that resolve to the latest published version
+const LATEST_TAGS = new Set(['latest', '*', 'x', 'X']);
+
+// TTL for label -> version pointers (L1 and L2). Labels move on rollback,
+// so keep this short; the CMS also purges it via the label.moved webhook.
+const LABEL_TTL = 60;
+
+// Label names as created in the CMS (e.g. "production", "staging")
+const LABEL_PATTERN = /^[a-z0-9][a-z0-9._-]{0,63}$/i;
+
 /**
  * Format semver from major/minor/patch columns
  */
@@ -27,51 +72,100 @@ const formatVersion = (
 };
 
 /**
- * Parse semver string into components
+ * Classify the version query parameter as latest, an exact pin or a range
  */
-const parseVersion = (
-  version: string,
-): { major: number; minor: number; patch: number } | null => {
-  const match = version.match(/^(\d+)\.(\d+)\.(\d+)$/);
-  if (!match) {
-    return null;
+const parseVersionSelector = (version?: string): VersionSelector | null => {
+  if (!version || LATEST_TAGS.has(version.trim())) {
+    return { type: 'latest' };
   }
-  const [, majorStr, minorStr, patchStr] = match;
-  if (!majorStr || !minorStr || !patchStr) {
-    return null;
+
+  const exact = parseVersion(version);
+  if (exact) {
+    return { type: 'exact', version: exact };
   }
-  return {
-    major: Number.parseInt(majorStr, 10),
-    minor: Number.parseInt(minorStr, 10),
-    patch: Number.parseInt(patchStr, 10),
-  };
+
+  const range = parseRange(version);
+  if (range) {
+    return { type: 'range', range, normalized: normalizeRange(version) };
+  }
+
+  return null;
 };
 
 /**
- * Build the version query based on whether a specific version is requested
+ * Build the version cache key for a selector
+ */
+const versionCacheKey = (
+  promptId: string,
+  selector: VersionSelector,
+): string => {
+  switch (selector.type) {
+    case 'exact': {
+      const { major, minor, patch } = selector.version;
+      return `version:${promptId}:${major}.${minor}.${patch}`;
+    }
+    case 'range':
+      return `version:${promptId}:range:${selector.normalized}`;
+    default:
+      return `version:${promptId}:latest`;
+  }
+};
+
+const VERSION_COLUMNS =
+  'id, prompt_id, major, minor, patch, system_message, user_message, config, published_at';
+
+/**
+ * Build the version query based on the requested selector.
+ * Ranges become row-value comparisons so D1 picks the highest match.
  */
 const buildVersionQuery = (
   env: Env,
   promptId: string,
-  parsedVersion?: { major: number; minor: number; patch: number },
+  selector: VersionSelector,
 ): D1PreparedStatement => {
-  if (parsedVersion) {
+  if (selector.type === 'exact') {
     return env.promptly
       .prepare(
-        `SELECT id, prompt_id, major, minor, patch, system_message, user_message, config, published_at
+        `SELECT ${VERSION_COLUMNS}
         FROM prompt_version
         WHERE prompt_id = ? AND major = ? AND minor = ? AND patch = ? AND published_at IS NOT NULL`,
       )
       .bind(
         promptId,
-        parsedVersion.major,
-        parsedVersion.minor,
-        parsedVersion.patch,
+        selector.version.major,
+        selector.version.minor,
+        selector.version.patch,
       );
   }
+
+  if (selector.type === 'range') {
+    const bindings: unknown[] = [promptId];
+    const sets = selector.range.map((set) => {
+      if (set.length === 0) {
+        return '1 = 1';
+      }
+      const conditions = set.map(({ operator, version }) => {
+        bindings.push(version.major, version.minor, version.patch);
+        return `(major, minor, patch) ${operator} (?, ?, ?)`;
+      });
+      return `(${conditions.join(' AND ')})`;
+    });
+
+    return env.promptly
+      .prepare(
+        `SELECT ${VERSION_COLUMNS}
+        FROM prompt_version
+        WHERE prompt_id = ? AND published_at IS NOT NULL AND major IS NOT NULL
+          AND (${sets.join(' OR ')})
+        ORDER BY major DESC, minor DESC, patch DESC
+        LIMIT 1`,
+      )
+      .bind(...bindings);
+  }
+
   return env.promptly
     .prepare(
-      `SELECT id, prompt_id, major, minor, patch, system_message, user_message, config, published_at
+      `SELECT ${VERSION_COLUMNS}
       FROM prompt_version
       WHERE prompt_id = ? AND published_at IS NOT NULL
       ORDER BY major DESC, minor DESC, patch DESC
@@ -81,16 +175,273 @@ const buildVersionQuery = (
 };
 
 /**
- * Fetch all prompts for an organization with their latest published versions
+ * Cache TTLs for a resolved version: exact pins are immutable,
+ * latest and ranges can move when a new version is published
+ */
+const versionCacheOptions = (selector: VersionSelector): CacheWriteOptions => {
+  switch (selector.type) {
+    case 'exact':
+      return { kvTtl: 0 };
+    case 'range':
+      return { kvTtl: RANGE_VERSION_TTL, l1Ttl: RANGE_VERSION_TTL };
+    default:
+      return { kvTtl: LATEST_VERSION_TTL, staleTtl: STALE_TTL };
+  }
+};
+
+/**
+ * Read prompt metadata from D1
+ */
+const queryPrompt = async (
+  env: Env,
+  requestContext: RequestContext,
+  promptId: string,
+): Promise<CachedPrompt | null> => {
+  const result = await timeSpan(
+    requestContext,
+    { layer: 'd1', name: 'prompt' },
+    () =>
+      env.promptly
+        .prepare(
+          'SELECT id, organization_id, name, description FROM prompt WHERE id = ? AND deleted_at IS NULL',
+        )
+        .bind(promptId)
+        .first<PromptRecord>(),
+  );
+
+  return result
+    ? {
+        id: result.id,
+        organizationId: result.organization_id,
+        name: result.name,
+        description: result.description,
+      }
+    : null;
+};
+
+/**
+ * Read the version a selector resolves to from D1
+ */
+const queryVersion = async (
+  env: Env,
+  requestContext: RequestContext,
+  promptId: string,
+  selector: VersionSelector,
+): Promise<CachedVersion | null> => {
+  const result = await timeSpan(
+    requestContext,
+    { layer: 'd1', name: 'version' },
+    () =>
+      buildVersionQuery(env, promptId, selector).first<PromptVersionRecord>(),
+  );
+
+  return result
+    ? {
+        version: formatVersion(result.major, result.minor, result.patch),
+        systemMessage: result.system_message,
+        userMessage: result.user_message,
+        config: JSON.parse(result.config) as Record<string, unknown>,
+      }
+    : null;
+};
+
+/**
+ * Read a missing entry from D1 and cache it, or cache that it doesn't
+ * exist. A known-missing key skips D1. Concurrent misses for the same key
+ * in this isolate share one load.
+ */
+const loadIntoCache = <T>(
+  env: Env,
+  requestContext: RequestContext,
+  key: string,
+  knownMissing: boolean,
+  options: CacheWriteOptions,
+  load: () => Promise<T | null>,
+): Promise<T | null> =>
+  knownMissing
+    ? Promise.resolve(null)
+    : singleFlight(key, async () => {
+        const value = await load();
+        await (value === null
+          ? rememberMissing(env.PROMPTS_CACHE, requestContext, key)
+          : setInCache(env.PROMPTS_CACHE, requestContext, key, value, options));
+        return value;
+      });
+
+/**
+ * Background refresh for a stale cache entry: re-run the D1 read and cache
+ * the result, or drop the entry if the row is gone
+ */
+const revalidateWith = <T>(
+  env: Env,
+  ctx: ExecutionContext,
+  requestContext: RequestContext,
+  key: string,
+  options: CacheWriteOptions,
+  load: () => Promise<T | null>,
+): CacheRevalidation => ({
+  ctx,
+  refresh: async () => {
+    const value = await load();
+    await (value === null
+      ? deleteFromCache(env.PROMPTS_CACHE, [key])
+      : setInCache(env.PROMPTS_CACHE, requestContext, key, value, options));
+  },
+});
+
+/**
+ * Load prompt metadata through the tiered cache
+ */
+const loadPrompt = async (
+  env: Env,
+  ctx: ExecutionContext,
+  requestContext: RequestContext,
+  promptId: string,
+): Promise<CachedPrompt | null> => {
+  const cacheKey = `prompt:${promptId}`;
+  const load = () => queryPrompt(env, requestContext, promptId);
+  const cached = await getFromCacheOrMissing<CachedPrompt>(
+    env.PROMPTS_CACHE,
+    requestContext,
+    cacheKey,
+    revalidateWith(
+      env,
+      ctx,
+      requestContext,
+      cacheKey,
+      PROMPT_CACHE_OPTIONS,
+      load,
+    ),
+  );
+  if (cached.value) {
+    return cached.value;
+  }
+
+  return loadIntoCache(
+    env,
+    requestContext,
+    cacheKey,
+    cached.knownMissing,
+    PROMPT_CACHE_OPTIONS,
+    load,
+  );
+};
+
+/**
+ * Resolve a release label to the published version it points at.
+ * Only the pointer is cached here; content comes from the immutable
+ * pinned-version cache, so moving a label only needs this key purged.
+ */
+const resolveLabel = async (
+  env: Env,
+  requestContext: RequestContext,
+  promptId: string,
+  label: string,
+): Promise<string | null> => {
+  const cacheKey = `label:${promptId}:${label}`;
+  const cached = await getFromCache<CachedLabel>(
+    env.PROMPTS_CACHE,
+    requestContext,
+    cacheKey,
+  );
+  if (cached) {
+    return cached.version;
+  }
+
+  const result = await timeSpan(
+    requestContext,
+    { layer: 'd1', name: 'label' },
+    () =>
+      env.promptly
+        .prepare(
+          `SELECT pv.major, pv.minor, pv.patch
+      FROM prompt_label pl
+      INNER JOIN prompt_version pv ON pv.id = pl.prompt_version_id
+      WHERE pl.prompt_id = ? AND pl.name = ? AND pv.published_at IS NOT NULL
+      LIMIT 1`,
+        )
+        .bind(promptId, label)
+        .first<Pick<PromptVersionRecord, 'major' | 'minor' | 'patch'>>(),
+  );
+
+  if (!result || result.major === null) {
+    return null;
+  }
+
+  const labelData: CachedLabel = {
+    version: formatVersion(result.major, result.minor, result.patch),
+  };
+  await setInCache(env.PROMPTS_CACHE, requestContext, cacheKey, labelData, {
+    kvTtl: LABEL_TTL,
+    l1Ttl: LABEL_TTL,
+  });
+  return labelData.version;
+};
+
+/**
+ * Escape LIKE wildcards so search terms match literally
+ */
+const escapeLike = (term: string): string => term.replace(/[\\%_]/g, '\\$&');
+
+/**
+ * Fetch prompts for an organization with their latest published versions.
+ * Filters, sorting and keyset pagination come from ListPromptsOptions;
+ * nextCursor is set when more rows follow the returned page. A scoped key
+ * only sees prompts its patterns match (a client token, the prompts it
+ * names), filtered in SQL so pages stay full.
  */
 export const fetchPrompts = async (
   env: Env,
+  requestContext: RequestContext,
   organizationId: string,
-  includeVersions = false,
-): Promise<PromptResponse[]> => {
-  const results = await env.promptly
-    .prepare(
-      `SELECT p.id, p.name,
+  scope: ResourceScope,
+  options: ListPromptsOptions,
+): Promise<{ prompts: PromptResponse[]; nextCursor: string | null }> => {
+  const { field, direction } = options.sort;
+  const conditions: string[] = [];
+  const bindings: unknown[] = [organizationId];
+
+  const scoped = scopeCondition(scope, 'p.id');
+  if (scoped) {
+    conditions.push(scoped.sql);
+    bindings.push(scoped.binding);
+  }
+
+  if (options.search) {
+    const pattern = `%${escapeLike(options.search)}%`;
+    conditions.push(
+      "(p.name LIKE ? ESCAPE '\\' OR p.description LIKE ? ESCAPE '\\')",
+    );
+    bindings.push(pattern, pattern);
+  }
+
+  if (options.updatedSince !== undefined) {
+    conditions.push('p.updated_at >= ?');
+    bindings.push(options.updatedSince);
+  }
+
+  if (options.cursor) {
+    // Rows strictly after the cursor in (sort field, id) order
+    const op = direction === 'asc' ? '>' : '<';
+    conditions.push(`(p.${field}, p.id) ${op} (?, ?)`);
+    bindings.push(options.cursor.value, options.cursor.id);
+  }
+
+  // Fetch one extra row to know whether another page follows
+  let limitClause = '';
+  if (options.limit !== undefined) {
+    limitClause = 'LIMIT ?';
+    bindings.push(options.limit + 1);
+  }
+
+  const order = direction.toUpperCase();
+  const results = await timeSpan(
+    requestContext,
+    { layer: 'd1', name: 'list' },
+    () =>
+      env.promptly
+        .prepare(
+          `SELECT p.id, p.name, p.${field} AS sort_value,
               pv.major, pv.minor, pv.patch,
               pv.system_message, pv.user_message, pv.config
        FROM prompt p
@@ -104,12 +455,30 @@ export const fetchPrompts = async (
              AND pv2.published_at IS NOT NULL
            ORDER BY pv2.major DESC, pv2.minor DESC, pv2.patch DESC
            LIMIT 1
-         )`,
-    )
-    .bind(organizationId)
-    .all();
+         )
+         ${conditions.map((c) => `AND ${c}`).join('\n         ')}
+       ORDER BY p.${field} ${order}, p.id ${order}
+       ${limitClause}`,
+        )
+        .bind(...bindings)
+        .all(),
+  );
 
-  const prompts: PromptResponse[] = results.results.map((row) => ({
+  let rows = results.results;
+  let nextCursor: string | null = null;
+  if (options.limit !== undefined && rows.length > options.limit) {
+    rows = rows.slice(0, options.limit);
+    const last = rows[rows.length - 1];
+    if (last) {
+      nextCursor = encodeCursor({
+        sort: formatSort(options.sort),
+        value: last.sort_value as string | number,
+        id: last.id as string,
+      });
+    }
+  }
+
+  const prompts: PromptResponse[] = rows.map((row) => ({
     promptId: row.id as string,
     promptName: row.name as string,
     version: formatVersion(
@@ -122,22 +491,26 @@ export const fetchPrompts = async (
     config: JSON.parse(row.config as string) as Record<string, unknown>,
   }));
 
-  if (!includeVersions) {
-    return prompts;
+  if (!options.includeVersions || prompts.length === 0) {
+    return { prompts, nextCursor };
   }
 
-  const versionsResult = await env.promptly
-    .prepare(
-      `SELECT pv.prompt_id, pv.major, pv.minor, pv.patch, pv.user_message
+  // Only load versions for the prompts on this page
+  const versionsResult = await timeSpan(
+    requestContext,
+    { layer: 'd1', name: 'versions' },
+    () =>
+      env.promptly
+        .prepare(
+          `SELECT pv.prompt_id, pv.major, pv.minor, pv.patch, pv.user_message
        FROM prompt_version pv
-       INNER JOIN prompt p ON p.id = pv.prompt_id
-       WHERE p.organization_id = ?
-         AND p.deleted_at IS NULL
+       WHERE pv.prompt_id IN (SELECT value FROM json_each(?))
          AND pv.published_at IS NOT NULL
        ORDER BY pv.prompt_id, pv.major ASC, pv.minor ASC, pv.patch ASC`,
-    )
-    .bind(organizationId)
-    .all();
+        )
+        .bind(JSON.stringify(prompts.map((prompt) => prompt.promptId)))
+        .all(),
+  );
 
   const versionsByPrompt = new Map<string, PublishedVersion[]>();
   for (const row of versionsResult.results) {
@@ -155,47 +528,139 @@ export const fetchPrompts = async (
     });
   }
 
-  return prompts.map((prompt) => ({
-    ...prompt,
-    publishedVersions: versionsByPrompt.get(prompt.promptId) ?? [],
-  }));
+  return {
+    prompts: prompts.map((prompt) => ({
+      ...prompt,
+      publishedVersions: versionsByPrompt.get(prompt.promptId) ?? [],
+    })),
+    nextCursor,
+  };
 };
 
 /**
- * Fetch a prompt by ID with optional version
+ * Error for a prompt or version a client token wasn't issued for
+ */
+const outOfScope = (
+  promptId: string,
+  version?: string,
+): { error: string; code: string } => ({
+  error: version
+    ? `Token does not cover version ${version} of prompt ${promptId}`
+    : `Token does not cover prompt ${promptId}`,
+  code: 'TOKEN_OUT_OF_SCOPE',
+});
+
+/**
+ * Fetch a prompt by ID with optional version or release label. Prompts
+ * outside the key's scope are reported as not found, as listing hides them.
+ * A client token names its prompts and versions, so anything else it asks
+ * for is TOKEN_OUT_OF_SCOPE.
  */
 export const fetchPrompt = async (
   env: Env,
+  ctx: ExecutionContext,
+  requestContext: RequestContext,
   promptId: string,
   organizationId: string,
+  scope: ResourceScope,
   version?: string,
+  label?: string,
 ): Promise<PromptResponse | { error: string; code: string }> => {
-  // Parse version early to fail fast on invalid format
-  let parsedVersion:
-    | { major: number; minor: number; patch: number }
-    | undefined;
-  if (version) {
-    const parsed = parseVersion(version);
-    if (!parsed) {
+  // Checked before any lookup, so out-of-scope IDs cost no reads
+  if (!inScope(scope, promptId)) {
+    return scope.type === 'token'
+      ? outOfScope(promptId)
+      : { error: 'Prompt not found', code: 'NOT_FOUND' };
+  }
+
+  // A label resolves to an exact version, then follows the pinned path
+  if (label !== undefined) {
+    if (version) {
       return {
-        error: 'Invalid version format. Use semver (e.g., 1.0.0)',
+        error: 'Use either version or label, not both',
         code: 'BAD_REQUEST',
       };
     }
-    parsedVersion = parsed;
+    if (!LABEL_PATTERN.test(label)) {
+      return { error: 'Invalid label format', code: 'BAD_REQUEST' };
+    }
+
+    const labelVersion = await resolveLabel(
+      env,
+      requestContext,
+      promptId,
+      label,
+    );
+    if (!labelVersion) {
+      // Don't reveal labels of prompts in other organizations
+      const promptData = await loadPrompt(env, ctx, requestContext, promptId);
+      if (!promptData || promptData.organizationId !== organizationId) {
+        return { error: 'Prompt not found', code: 'NOT_FOUND' };
+      }
+      return { error: `Label ${label} not found`, code: 'LABEL_NOT_FOUND' };
+    }
+
+    const result = await fetchPrompt(
+      env,
+      ctx,
+      requestContext,
+      promptId,
+      organizationId,
+      scope,
+      labelVersion,
+    );
+    return 'error' in result ? result : { ...result, label };
+  }
+
+  // Parse version early to fail fast on invalid format
+  const selector = parseVersionSelector(version);
+  if (!selector) {
+    return {
+      error:
+        'Invalid version format. Use semver (e.g., 1.0.0) or a range (e.g., ^1.0.0)',
+      code: 'BAD_REQUEST',
+    };
   }
 
   // Build cache keys
   const promptCacheKey = `prompt:${promptId}`;
-  const versionCacheKey = version
-    ? `version:${promptId}:${version}`
-    : `version:${promptId}:latest`;
+  const versionKey = versionCacheKey(promptId, selector);
+  const versionOptions = versionCacheOptions(selector);
+  const loadPromptData = () => queryPrompt(env, requestContext, promptId);
+  const loadVersionData = () =>
+    queryVersion(env, requestContext, promptId, selector);
 
   // Check cache for prompt and version in parallel
-  const [cachedPrompt, cachedVersion] = await Promise.all([
-    getFromCache<CachedPrompt>(env.PROMPTS_CACHE, promptCacheKey),
-    getFromCache<CachedVersion>(env.PROMPTS_CACHE, versionCacheKey),
+  const [promptLookup, versionLookup] = await Promise.all([
+    getFromCacheOrMissing<CachedPrompt>(
+      env.PROMPTS_CACHE,
+      requestContext,
+      promptCacheKey,
+      revalidateWith(
+        env,
+        ctx,
+        requestContext,
+        promptCacheKey,
+        PROMPT_CACHE_OPTIONS,
+        loadPromptData,
+      ),
+    ),
+    getFromCacheOrMissing<CachedVersion>(
+      env.PROMPTS_CACHE,
+      requestContext,
+      versionKey,
+      revalidateWith(
+        env,
+        ctx,
+        requestContext,
+        versionKey,
+        versionOptions,
+        loadVersionData,
+      ),
+    ),
   ]);
+  const cachedPrompt = promptLookup.value;
+  const cachedVersion = versionLookup.value;
 
   let promptData: CachedPrompt;
   let versionData: CachedVersion | null;
@@ -205,81 +670,44 @@ export const fetchPrompt = async (
     promptData = cachedPrompt;
     versionData = cachedVersion;
   } else if (cachedPrompt && !cachedVersion) {
-    // Prompt cached, need version from D1
+    // Prompt cached, need version from D1. Cached indefinitely for exact
+    // pins, shorter for latest/ranges
     promptData = cachedPrompt;
-    const versionResult = await buildVersionQuery(
+    versionData = await loadIntoCache(
       env,
-      promptId,
-      parsedVersion,
-    ).first<PromptVersionRecord>();
-
-    if (versionResult) {
-      versionData = {
-        version: formatVersion(
-          versionResult.major,
-          versionResult.minor,
-          versionResult.patch,
-        ),
-        systemMessage: versionResult.system_message,
-        userMessage: versionResult.user_message,
-        config: JSON.parse(versionResult.config) as Record<string, unknown>,
-      };
-      // Cache version: indefinitely for specific versions, L2_TTL for latest
-      const kvTtl = version ? 0 : LATEST_VERSION_TTL;
-      await setInCache(env.PROMPTS_CACHE, versionCacheKey, versionData, kvTtl);
-    } else {
-      versionData = null;
-    }
+      requestContext,
+      versionKey,
+      versionLookup.knownMissing,
+      versionOptions,
+      loadVersionData,
+    );
   } else {
     // Need both from D1 - fetch in parallel
     const [promptResult, versionResult] = await Promise.all([
-      env.promptly
-        .prepare(
-          'SELECT id, organization_id, name, description FROM prompt WHERE id = ? AND deleted_at IS NULL',
-        )
-        .bind(promptId)
-        .first<PromptRecord>(),
-      buildVersionQuery(
+      loadIntoCache(
         env,
-        promptId,
-        parsedVersion,
-      ).first<PromptVersionRecord>(),
+        requestContext,
+        promptCacheKey,
+        promptLookup.knownMissing,
+        PROMPT_CACHE_OPTIONS,
+        loadPromptData,
+      ),
+      loadIntoCache(
+        env,
+        requestContext,
+        versionKey,
+        versionLookup.knownMissing,
+        versionOptions,
+        loadVersionData,
+      ),
     ]);
 
     if (!promptResult) {
       return { error: 'Prompt not found', code: 'NOT_FOUND' };
     }
 
-    promptData = {
-      id: promptResult.id,
-      organizationId: promptResult.organization_id,
-      name: promptResult.name,
-      description: promptResult.description,
-    };
-
-    // Build version data before caching
-    if (versionResult) {
-      versionData = {
-        version: formatVersion(
-          versionResult.major,
-          versionResult.minor,
-          versionResult.patch,
-        ),
-        systemMessage: versionResult.system_message,
-        userMessage: versionResult.user_message,
-        config: JSON.parse(versionResult.config) as Record<string, unknown>,
-      };
-      // Cache both in parallel
-      const kvTtl = version ? 0 : LATEST_VERSION_TTL;
-      await Promise.all([
-        setInCache(env.PROMPTS_CACHE, promptCacheKey, promptData, L2_TTL),
-        setInCache(env.PROMPTS_CACHE, versionCacheKey, versionData, kvTtl),
-      ]);
-    } else {
-      versionData = null;
-      // Still cache prompt
-      await setInCache(env.PROMPTS_CACHE, promptCacheKey, promptData, L2_TTL);
-    }
+    promptData = promptResult;
+    versionData = versionResult;
   }
 
   // Verify organization match
@@ -289,13 +717,18 @@ export const fetchPrompt = async (
 
   if (!versionData) {
     return {
-      error: version
-        ? `Version ${version} not found`
-        : 'No published version found',
+      error:
+        selector.type === 'latest'
+          ? 'No published version found'
+          : `Version ${version} not found`,
       code: 'VERSION_NOT_FOUND',
     };
   }
 
+  if (!versionInScope(scope, promptId, versionData.version)) {
+    return outOfScope(promptId, versionData.version);
+  }
+
   return {
     promptId: promptData.id,
     promptName: promptData.name,
@@ -1,25 +1,149 @@
-import { fetchPrompt, fetchPrompts } from './fetch-prompt.ts';
+import {
+  apiVersionHeaders,
+  resolveApiVersion,
+  routesForVersion,
+} from './api-version.ts';
+import {
+  buildClaims,
+  isClientToken,
+  MAX_TOKEN_PROMPTS,
+  MAX_TOKEN_TTL,
+  MIN_TOKEN_TTL,
+  parseTokenRequest,
+  signClientToken,
+  verifyClientToken,
+} from './client-token.ts';
+import { computeEtag, matchesIfNoneMatch } from './etag.ts';
+import { fetchPrompt, fetchPrompts, MAX_BATCH_SIZE } from './fetch-prompt.ts';
+import {
+  invalidateCache,
+  parseInvalidationEvents,
+  verifySignature,
+} from './invalidate-cache.ts';
+import { parseListPromptsQuery } from './list-options.ts';
+import { memoryCache } from './memory-cache.ts';
+import {
+  isolateMetrics,
+  metricsSinks,
+  recordRequestMetrics,
+  renderMemoryCacheStats,
+  verifyMetricsToken,
+} from './metrics.ts';
+import { buildOpenApiDocument } from './openapi.ts';
+import { inScope } from './permissions.ts';
+import { checkBurstLimit, getRateLimitStore } from './rate-limit.ts';
+import { renderPrompt } from './render-prompt.ts';
+import {
+  createRequestContext,
+  logRequest,
+  requestContextHeaders,
+  timeSpan,
+} from './request-context.ts';
+import { parseRevocationRequest, revokeApiKeys } from './revocation.ts';
+import { allowedMethods, defineRoute, matchRoute } from './router.ts';
+import { parseVersion } from './semver.ts';
 import type {
+  ApiKeyResult,
+  ApiKeyRouteContext,
+  ApiVersion,
+  BatchRequest,
+  BatchRequestItem,
+  BatchResponse,
+  BatchResult,
+  ClientInfo,
   Env,
   ErrorResponse,
+  InvalidationResponse,
+  PromptListResponse,
   PromptResponse,
+  QueryParamDoc,
+  RateLimitDecision,
   RateLimitResponse,
+  RenderRequest,
+  RequestContext,
+  ResourceScope,
+  RevocationResponse,
+  Route,
+  RouteContext,
+  TokenResponse,
+  UsageAttribution,
+  UsageBreakdown,
+  UsageReport,
   UsageStatus,
+  VariableErrorResponse,
 } from './types.ts';
 import {
   checkUsageLimit,
   getNextMonthResetUnix,
+  getUsageBreakdown,
+  getUsageReport,
   incrementUsage,
+  parseUsageBreakdownQuery,
+  parseUsageRange,
 } from './usage.ts';
-import { verifyApiKey } from './verify-api-key.ts';
+import { verifyApiKey, verifyKeyHash } from './verify-api-key.ts';
 
-const CORS_HEADERS = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'GET, OPTIONS',
-  'Access-Control-Allow-Headers': 'Authorization, Content-Type',
-  'Access-Control-Max-Age': '86400',
+// HTTP status for fetchPrompt error codes
+const PROMPT_ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  VERSION_NOT_FOUND: 404,
+  LABEL_NOT_FOUND: 404,
+  BAD_REQUEST: 400,
+  TOKEN_OUT_OF_SCOPE: 403,
 };
 
+// HTTP status and message for verifyApiKey failures
+const AUTH_ERROR_STATUS = {
+  INVALID_KEY: 401,
+  DISABLED: 401,
+  EXPIRED: 401,
+  REVOKED: 401,
+  ORIGIN_NOT_ALLOWED: 403,
+  IP_NOT_ALLOWED: 403,
+  FORBIDDEN: 403,
+  TOKEN_EXPIRED: 401,
+  INVALID_TOKEN_SIGNATURE: 401,
+  TOKEN_OUT_OF_SCOPE: 403,
+} as const;
+
+const AUTH_ERROR_MESSAGE = {
+  INVALID_KEY: 'Invalid API key',
+  DISABLED: 'API key is disabled',
+  EXPIRED: 'API key has expired',
+  REVOKED: 'API key has been revoked',
+  ORIGIN_NOT_ALLOWED: 'API key may not be used from this origin',
+  IP_NOT_ALLOWED: 'API key may not be used from this IP address',
+  FORBIDDEN: 'Insufficient permissions',
+  TOKEN_EXPIRED: 'Client token has expired',
+  INVALID_TOKEN_SIGNATURE: 'Client token signature is invalid',
+  TOKEN_OUT_OF_SCOPE: 'Client tokens cannot be used for this endpoint',
+} as const;
+
+// Every error code the API returns, by status (documented in /openapi.json)
+const ERROR_STATUS: Record<string, number> = {
+  ...PROMPT_ERROR_STATUS,
+  ...AUTH_ERROR_STATUS,
+  UNAUTHORIZED: 401,
+  INVALID_SIGNATURE: 401,
+  METHOD_NOT_ALLOWED: 405,
+  UNSUPPORTED_API_VERSION: 400,
+  MISSING_VARIABLE: 422,
+  UNKNOWN_VARIABLE: 422,
+  INVALID_VARIABLE_TYPE: 422,
+  USAGE_LIMIT_EXCEEDED: 429,
+  RATE_LIMITED: 429,
+  REVOCATIONS_UNAVAILABLE: 503,
+  INTERNAL_ERROR: 500,
+};
+
+// Pinned content never changes, but the response also carries promptName
+// (renamable) and the prompt can be deleted, so it isn't marked immutable.
+// Bounded like the server's prompt metadata (5 min soft TTL).
+const PINNED_CACHE_CONTROL = 'private, max-age=300';
+
+// Latest, ranges and listings change whenever a version is published
+const SHORT_CACHE_CONTROL = 'private, max-age=60';
+
 /**
  * Create a JSON response with CORS headers and optional extra headers
  */
@@ -38,6 +162,35 @@ const jsonResponse = <T>(
   });
 };
 
+/**
+ * Create a cacheable JSON response with an ETag, or an empty 304 when
+ * the request's If-None-Match still matches
+ */
+const conditionalJsonResponse = async <T>(
+  request: Request,
+  data: T,
+  cacheControl: string,
+  extraHeaders?: Record<string, string>,
+): Promise<Response> => {
+  const body = JSON.stringify(data);
+  const etag = await computeEtag(body);
+  const headers = {
+    ...CORS_HEADERS,
+    ETag: etag,
+    'Cache-Control': cacheControl,
+    ...extraHeaders,
+  };
+
+  if (matchesIfNoneMatch(request.headers.get('If-None-Match'), etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  return new Response(body, {
+    status: 200,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+};
+
 /**
  * Create an error response
  */
@@ -67,36 +220,895 @@ const rateLimitHeaders = (
 };
 
 /**
- * Handle incoming requests
+ * Build burst limit headers for the tightest (or blocking) window
  */
-export const handleRequest = async (
+const burstLimitHeaders = (
+  decision: RateLimitDecision,
+): Record<string, string> => ({
+  'X-RateLimit-Burst-Limit': String(decision.limit),
+  'X-RateLimit-Burst-Remaining': String(decision.remaining),
+  'X-RateLimit-Burst-Reset': String(Math.ceil(decision.resetAt / 1000)),
+  'X-RateLimit-Burst-Scope': decision.scope,
+});
+
+/**
+ * Parse the render request body, returning null if it isn't a valid shape.
+ * Missing variables default to {}.
+ */
+const parseRenderBody = async (
+  request: Request,
+): Promise<Required<RenderRequest> | null> => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return null;
+  }
+
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return null;
+  }
+
+  const { variables } = body as RenderRequest;
+  if (
+    variables !== undefined &&
+    (typeof variables !== 'object' ||
+      variables === null ||
+      Array.isArray(variables))
+  ) {
+    return null;
+  }
+
+  return { variables: variables ?? {} };
+};
+
+/**
+ * Parse the batch request body, returning null if it isn't a valid shape
+ */
+const parseBatchBody = async (
   request: Request,
+): Promise<BatchRequest | null> => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return null;
+  }
+
+  const items = (body as Partial<BatchRequest> | null)?.prompts;
+  if (
+    !Array.isArray(items) ||
+    items.length === 0 ||
+    items.length > MAX_BATCH_SIZE
+  ) {
+    return null;
+  }
+
+  const isOptionalString = (value: unknown) =>
+    value === undefined || typeof value === 'string';
+
+  const valid = items.every(
+    (item: Partial<BatchRequestItem> | null) =>
+      typeof item === 'object' &&
+      item !== null &&
+      typeof item.promptId === 'string' &&
+      item.promptId.length > 0 &&
+      isOptionalString(item.version) &&
+      isOptionalString(item.label),
+  );
+
+  return valid ? { prompts: items } : null;
+};
+
+/**
+ * Fetch each batch item through fetchPrompt's cache path.
+ * Items are metered individually and served items consume the remaining
+ * monthly quota in request order; failed items don't use it up. Served
+ * items past the quota fail with USAGE_LIMIT_EXCEEDED.
+ */
+const fetchBatch = async (
   env: Env,
   ctx: ExecutionContext,
-): Promise<Response> => {
-  const url = new URL(request.url);
+  requestContext: RequestContext,
+  organizationId: string,
+  scope: ResourceScope,
+  items: BatchRequestItem[],
+  remaining: number | null,
+): Promise<BatchResult[]> => {
+  const results = await Promise.all(
+    items.map(async (item): Promise<BatchResult> => {
+      const result = await fetchPrompt(
+        env,
+        ctx,
+        requestContext,
+        item.promptId,
+        organizationId,
+        scope,
+        item.version,
+        item.label,
+      );
 
-  // Handle CORS preflight
-  if (request.method === 'OPTIONS') {
-    return new Response(null, {
-      status: 204,
-      headers: CORS_HEADERS,
-    });
+      if ('error' in result) {
+        return {
+          promptId: item.promptId,
+          status: PROMPT_ERROR_STATUS[result.code] ?? 500,
+          error: result,
+        };
+      }
+
+      return { promptId: item.promptId, status: 200, prompt: result };
+    }),
+  );
+
+  let served = 0;
+  return results.map((result): BatchResult => {
+    if (result.status !== 200) {
+      return result;
+    }
+    if (remaining !== null && served >= remaining) {
+      return {
+        promptId: result.promptId,
+        status: 429,
+        error: {
+          error: 'Monthly API limit reached',
+          code: 'USAGE_LIMIT_EXCEEDED',
+        },
+      };
+    }
+    served++;
+    return result;
+  });
+};
+
+/**
+ * Handle the CMS cache invalidation webhook (HMAC-signed, no API key)
+ */
+const handleInvalidate = async ({
+  request,
+  env,
+}: RouteContext<Record<never, never>>): Promise<Response> => {
+  // Endpoint is disabled unless the shared secret is configured
+  if (!env.INVALIDATION_SECRET) {
+    return errorResponse('Not found', 'NOT_FOUND', 404);
+  }
+
+  const body = await request.text();
+  const validSignature = await verifySignature(
+    env.INVALIDATION_SECRET,
+    request.headers.get('X-Promptly-Timestamp'),
+    body,
+    request.headers.get('X-Promptly-Signature'),
+  );
+
+  if (!validSignature) {
+    return errorResponse('Invalid signature', 'INVALID_SIGNATURE', 401);
+  }
+
+  const events = parseInvalidationEvents(body);
+  if (!events) {
+    return errorResponse(
+      'Request body must be { "events": [...] } with 1-100 valid events',
+      'BAD_REQUEST',
+      400,
+    );
+  }
+
+  const purged = await invalidateCache(env, events);
+  return jsonResponse<InvalidationResponse>({ purged });
+};
+
+/**
+ * Add API key hashes to the deny-list (signed like the invalidation webhook).
+ * Takes effect on every isolate's next request with the key; the cached
+ * entries are purged too so they don't outlive the revocation in KV.
+ */
+const handleRevoke = async ({
+  request,
+  env,
+}: RouteContext<Record<never, never>>): Promise<Response> => {
+  // Endpoint is disabled unless the shared secret is configured
+  if (!env.INVALIDATION_SECRET) {
+    return errorResponse('Not found', 'NOT_FOUND', 404);
+  }
+
+  const body = await request.text();
+  const validSignature = await verifySignature(
+    env.INVALIDATION_SECRET,
+    request.headers.get('X-Promptly-Timestamp'),
+    body,
+    request.headers.get('X-Promptly-Signature'),
+  );
+
+  if (!validSignature) {
+    return errorResponse('Invalid signature', 'INVALID_SIGNATURE', 401);
+  }
+
+  const revocation = parseRevocationRequest(body);
+  if (!revocation) {
+    return errorResponse(
+      'Request body must be { "keyHashes": [...] } with 1-100 key hashes and an optional "reason"',
+      'BAD_REQUEST',
+      400,
+    );
+  }
+
+  // Without the Durable Object a revocation would only reach this isolate
+  if (!env.REVOCATIONS) {
+    return errorResponse(
+      'Revocation list is not configured',
+      'REVOCATIONS_UNAVAILABLE',
+      503,
+    );
+  }
+
+  await revokeApiKeys(env, revocation);
+  await invalidateCache(
+    env,
+    revocation.keyHashes.map((keyHash) => ({
+      type: 'apikey.revoked' as const,
+      keyHash,
+    })),
+  );
+  return jsonResponse<RevocationResponse>({ revoked: revocation.keyHashes });
+};
+
+/**
+ * Dump this isolate's metrics for a scraper holding METRICS_TOKEN
+ */
+const handleMetrics = async ({
+  request,
+  env,
+}: RouteContext<Record<never, never>>): Promise<Response> => {
+  // Endpoint is disabled unless the token is configured
+  if (!env.METRICS_TOKEN) {
+    return errorResponse('Not found', 'NOT_FOUND', 404);
+  }
+
+  const token = request.headers
+    .get('Authorization')
+    ?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!token || !(await verifyMetricsToken(env.METRICS_TOKEN, token))) {
+    return errorResponse('Invalid metrics token', 'UNAUTHORIZED', 401);
+  }
+
+  return new Response(
+    isolateMetrics.render() + renderMemoryCacheStats(memoryCache.stats()),
+    {
+      headers: {
+        'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+        'Cache-Control': 'no-store',
+      },
+    },
+  );
+};
+
+/**
+ * GET /usage - monthly figures and a daily breakdown
+ */
+const handleUsage = async ({
+  env,
+  url,
+  key,
+  usage,
+  limitHeaders,
+}: ApiKeyRouteContext<Record<never, never>>): Promise<Response> => {
+  const range = parseUsageRange(url.searchParams);
+  if ('error' in range) {
+    return errorResponse(range.error, range.code, 400);
+  }
+
+  const report = await getUsageReport(env, key.organizationId, usage, range);
+
+  return jsonResponse<UsageReport>(report, 200, {
+    'Cache-Control': 'private, no-store',
+    ...limitHeaders,
+  });
+};
+
+/**
+ * GET /usage/breakdown - usage attributed by key, prompt or version
+ */
+const handleUsageBreakdown = async ({
+  env,
+  url,
+  key,
+  limitHeaders,
+}: ApiKeyRouteContext<Record<never, never>>): Promise<Response> => {
+  const query = parseUsageBreakdownQuery(url.searchParams);
+  if ('error' in query) {
+    return errorResponse(query.error, query.code, 400);
+  }
+
+  const breakdown = await getUsageBreakdown(
+    env,
+    key.organizationId,
+    key.scope,
+    query.period,
+    query.groupBy,
+  );
+
+  return jsonResponse<UsageBreakdown>(breakdown, 200, {
+    'Cache-Control': 'private, no-store',
+    ...limitHeaders,
+  });
+};
+
+/**
+ * POST /prompts/batch - fetch several prompts in one request
+ */
+const handleBatch = async ({
+  request,
+  env,
+  ctx,
+  requestContext,
+  key,
+  usage,
+  limitHeaders,
+  meter,
+}: ApiKeyRouteContext<Record<never, never>>): Promise<Response> => {
+  const batchRequest = await parseBatchBody(request);
+  if (!batchRequest) {
+    return errorResponse(
+      `Request body must be { "prompts": [{ "promptId": "...", "version"?: "...", "label"?: "..." }] } with 1-${MAX_BATCH_SIZE} items`,
+      'BAD_REQUEST',
+      400,
+    );
+  }
+
+  const results = await fetchBatch(
+    env,
+    ctx,
+    requestContext,
+    key.organizationId,
+    key.scope,
+    batchRequest.prompts,
+    usage.remaining,
+  );
+
+  meter(
+    results.flatMap((result) =>
+      'prompt' in result
+        ? [
+            {
+              apiKeyId: key.keyId,
+              promptId: result.promptId,
+              version: result.prompt.version,
+            },
+          ]
+        : [],
+    ),
+  );
+
+  return jsonResponse<BatchResponse>({ results }, 200, limitHeaders);
+};
+
+/**
+ * GET /prompts - list the organization's prompts
+ */
+const handleListPrompts = async ({
+  request,
+  env,
+  requestContext,
+  url,
+  key,
+  limitHeaders,
+  meter,
+}: ApiKeyRouteContext<Record<never, never>>): Promise<Response> => {
+  const listOptions = parseListPromptsQuery(url.searchParams);
+  if ('error' in listOptions) {
+    return errorResponse(listOptions.error, listOptions.code, 400);
+  }
+
+  const { prompts, nextCursor } = await fetchPrompts(
+    env,
+    requestContext,
+    key.organizationId,
+    key.scope,
+    listOptions,
+  );
+
+  const headers: Record<string, string> = { ...limitHeaders };
+  if (nextCursor) {
+    const nextUrl = new URL(url);
+    nextUrl.searchParams.set('cursor', nextCursor);
+    headers.Link = `<${nextUrl.toString()}>; rel="next"`;
+  }
+
+  meter([{ apiKeyId: key.keyId, promptId: null, version: null }]);
+
+  // Legacy clients that don't paginate keep getting a bare array
+  return conditionalJsonResponse<PromptResponse[] | PromptListResponse>(
+    request,
+    listOptions.limit === undefined
+      ? prompts
+      : {
+          data: prompts,
+          pagination: { limit: listOptions.limit, nextCursor },
+        },
+    SHORT_CACHE_CONTROL,
+    headers,
+  );
+};
+
+/**
+ * GET /prompts/:promptId - fetch a prompt by version, range or label
+ */
+const handleGetPrompt = async ({
+  request,
+  env,
+  ctx,
+  requestContext,
+  url,
+  params,
+  key,
+  limitHeaders,
+  meter,
+}: ApiKeyRouteContext<{ promptId: string }>): Promise<Response> => {
+  // Get optional version or release label parameters
+  const version = url.searchParams.get('version') ?? undefined;
+  const label = url.searchParams.get('label') ?? undefined;
+
+  const promptResult = await fetchPrompt(
+    env,
+    ctx,
+    requestContext,
+    params.promptId,
+    key.organizationId,
+    key.scope,
+    version,
+    label,
+  );
+
+  if ('error' in promptResult) {
+    const status = PROMPT_ERROR_STATUS[promptResult.code] ?? 500;
+    return errorResponse(promptResult.error, promptResult.code, status);
+  }
+
+  meter([
+    {
+      apiKeyId: key.keyId,
+      promptId: params.promptId,
+      version: promptResult.version,
+    },
+  ]);
+
+  // Exact pins only change with prompt metadata; latest and ranges move
+  // on every publish
+  const pinned = version !== undefined && parseVersion(version) !== null;
+
+  return conditionalJsonResponse<PromptResponse>(
+    request,
+    promptResult,
+    pinned ? PINNED_CACHE_CONTROL : SHORT_CACHE_CONTROL,
+    limitHeaders,
+  );
+};
+
+/**
+ * POST /prompts/:promptId/render - fetch a prompt and fill in its variables
+ */
+const handleRenderPrompt = async ({
+  request,
+  env,
+  ctx,
+  requestContext,
+  url,
+  params,
+  key,
+  limitHeaders,
+  meter,
+}: ApiKeyRouteContext<{ promptId: string }>): Promise<Response> => {
+  const version = url.searchParams.get('version') ?? undefined;
+  const label = url.searchParams.get('label') ?? undefined;
+
+  // Validate the body before doing any prompt lookups
+  const renderRequest = await parseRenderBody(request);
+  if (!renderRequest) {
+    return errorResponse(
+      'Request body must be a JSON object with an optional "variables" object',
+      'BAD_REQUEST',
+      400,
+    );
+  }
+
+  const promptResult = await fetchPrompt(
+    env,
+    ctx,
+    requestContext,
+    params.promptId,
+    key.organizationId,
+    key.scope,
+    version,
+    label,
+  );
+
+  if ('error' in promptResult) {
+    const status = PROMPT_ERROR_STATUS[promptResult.code] ?? 500;
+    return errorResponse(promptResult.error, promptResult.code, status);
   }
 
-  // Only allow GET requests
-  if (request.method !== 'GET') {
-    return errorResponse('Method not allowed', 'METHOD_NOT_ALLOWED', 405);
+  const rendered = renderPrompt(promptResult, renderRequest.variables);
+
+  if ('errors' in rendered) {
+    const [first] = rendered.errors;
+    return jsonResponse<VariableErrorResponse>(
+      {
+        error: first?.message ?? 'Invalid variables',
+        code: first?.code ?? 'BAD_REQUEST',
+        errors: rendered.errors,
+      },
+      422,
+      limitHeaders,
+    );
   }
 
-  // Parse routes
-  const singleMatch = url.pathname.match(/^\/prompts\/([^/]+)$/);
-  const listMatch = url.pathname === '/prompts';
+  meter([
+    {
+      apiKeyId: key.keyId,
+      promptId: params.promptId,
+      version: rendered.version,
+    },
+  ]);
 
-  if (!singleMatch && !listMatch) {
+  return jsonResponse<PromptResponse>(rendered, 200, limitHeaders);
+};
+
+/**
+ * POST /tokens - exchange the API key for a short-lived client token that
+ * may read only the listed prompts (and versions)
+ */
+const handleIssueToken = async ({
+  request,
+  env,
+  key,
+  limitHeaders,
+}: ApiKeyRouteContext<Record<never, never>>): Promise<Response> => {
+  // Endpoint is disabled unless the signing secret is configured
+  if (!env.TOKEN_SECRET) {
     return errorResponse('Not found', 'NOT_FOUND', 404);
   }
 
+  const tokenRequest = parseTokenRequest(await request.text());
+  if (!tokenRequest) {
+    return errorResponse(
+      `Request body must be { "prompts": [{ "promptId": "...", "versions": [...] }] } with 1-${MAX_TOKEN_PROMPTS} prompts, valid version ranges and an optional "expiresIn" of ${MIN_TOKEN_TTL}-${MAX_TOKEN_TTL} seconds`,
+      'BAD_REQUEST',
+      400,
+    );
+  }
+
+  // A token can't reach further than the key that issued it
+  const outside = tokenRequest.prompts.find(
+    ({ promptId }) => !inScope(key.scope, promptId),
+  );
+  if (outside) {
+    return errorResponse(
+      `API key cannot read prompt ${outside.promptId}`,
+      'FORBIDDEN',
+      403,
+    );
+  }
+
+  const claims = buildClaims(key, tokenRequest);
+  return jsonResponse<TokenResponse>(
+    {
+      token: await signClientToken(env.TOKEN_SECRET, claims),
+      tokenType: 'Bearer',
+      expiresIn: tokenRequest.expiresIn,
+      expiresAt: new Date(claims.exp * 1000).toISOString(),
+    },
+    200,
+    { ...limitHeaders, 'Cache-Control': 'no-store' },
+  );
+};
+
+// Query parameters shared by the prompt fetch and render routes
+const PROMPT_QUERY_DOCS: QueryParamDoc[] = [
+  {
+    name: 'version',
+    description:
+      'Exact version (1.0.0), npm-style range (^2.1.0, ~2.1, 2.x) or latest. Defaults to latest',
+    schema: { type: 'string' },
+  },
+  {
+    name: 'label',
+    description: 'Release label such as production. Not with version',
+    schema: { type: 'string' },
+  },
+];
+
+const LIST_QUERY_DOCS: QueryParamDoc[] = [
+  {
+    name: 'include_versions',
+    description: 'true adds publishedVersions to each prompt',
+    schema: { type: 'boolean' },
+  },
+  {
+    name: 'q',
+    description: 'Case-insensitive search on name and description',
+    schema: { type: 'string', maxLength: 200 },
+  },
+  {
+    name: 'updated_since',
+    description: 'Only prompts updated at or after this time',
+    schema: { type: 'string', format: 'date-time' },
+  },
+  {
+    name: 'sort',
+    description: 'Sort field; prefix with - for descending',
+    schema: {
+      type: 'string',
+      enum: [
+        'name',
+        '-name',
+        'created_at',
+        '-created_at',
+        'updated_at',
+        '-updated_at',
+      ],
+    },
+  },
+  {
+    name: 'limit',
+    description: 'Page size. Giving limit or cursor returns a page envelope',
+    schema: { type: 'integer', minimum: 1, maximum: 100 },
+  },
+  {
+    name: 'cursor',
+    description: 'nextCursor from the previous page',
+    schema: { type: 'string' },
+  },
+];
+
+/**
+ * Route table. Every endpoint is declared here; methods, 405s, the CORS
+ * preflight and /openapi.json are all derived from it.
+ */
+const ROUTES: Route[] = [
+  defineRoute({
+    method: 'GET',
+    path: '/prompts',
+    docs: {
+      operationId: 'listPrompts',
+      summary: "List the organization's prompts",
+      query: LIST_QUERY_DOCS,
+      response: 'PromptList',
+      errors: ['BAD_REQUEST'],
+      conditional: true,
+    },
+    auth: 'apiKey',
+    permission: 'prompt:read',
+    metered: true,
+    handler: handleListPrompts,
+  }),
+  defineRoute({
+    method: 'POST',
+    path: '/prompts/batch',
+    docs: {
+      operationId: 'batchGetPrompts',
+      summary: 'Fetch up to 20 prompts; results are per item',
+      body: 'BatchRequest',
+      response: 'BatchResponse',
+      errors: ['BAD_REQUEST'],
+    },
+    auth: 'apiKey',
+    permission: 'prompt:read',
+    metered: true,
+    clientTokens: true,
+    handler: handleBatch,
+  }),
+  defineRoute({
+    method: 'GET',
+    path: '/prompts/:promptId',
+    docs: {
+      operationId: 'getPrompt',
+      summary: 'Fetch a prompt by version, range or release label',
+      query: PROMPT_QUERY_DOCS,
+      response: 'PromptResponse',
+      errors: [
+        'BAD_REQUEST',
+        'NOT_FOUND',
+        'VERSION_NOT_FOUND',
+        'LABEL_NOT_FOUND',
+      ],
+      conditional: true,
+    },
+    auth: 'apiKey',
+    permission: 'prompt:read',
+    metered: true,
+    clientTokens: true,
+    handler: handleGetPrompt,
+  }),
+  defineRoute({
+    method: 'POST',
+    path: '/prompts/:promptId/render',
+    docs: {
+      operationId: 'renderPrompt',
+      summary: 'Fetch a prompt and fill in its variables',
+      query: PROMPT_QUERY_DOCS,
+      body: 'RenderRequest',
+      response: 'PromptResponse',
+      errors: [
+        'BAD_REQUEST',
+        'NOT_FOUND',
+        'VERSION_NOT_FOUND',
+        'LABEL_NOT_FOUND',
+        'MISSING_VARIABLE',
+        'UNKNOWN_VARIABLE',
+        'INVALID_VARIABLE_TYPE',
+      ],
+    },
+    auth: 'apiKey',
+    permission: 'prompt:read',
+    metered: true,
+    clientTokens: true,
+    handler: handleRenderPrompt,
+  }),
+  defineRoute({
+    method: 'POST',
+    path: '/tokens',
+    docs: {
+      operationId: 'issueClientToken',
+      summary:
+        'Exchange the API key for a short-lived token scoped to prompts and versions (not metered)',
+      body: 'TokenRequest',
+      response: 'TokenResponse',
+      errors: ['BAD_REQUEST', 'NOT_FOUND'],
+    },
+    auth: 'apiKey',
+    permission: 'prompt:read',
+    metered: false,
+    handler: handleIssueToken,
+  }),
+  // Usage reports stay available once the quota is spent
+  defineRoute({
+    method: 'GET',
+    path: '/usage',
+    docs: {
+      operationId: 'getUsage',
+      summary: 'Monthly usage and a daily breakdown (not metered)',
+      query: [
+        {
+          name: 'from',
+          description: 'First day (UTC). Defaults to the start of the month',
+          schema: { type: 'string', format: 'date' },
+        },
+        {
+          name: 'to',
+          description: 'Last day, inclusive. Defaults to today',
+          schema: { type: 'string', format: 'date' },
+        },
+      ],
+      response: 'UsageReport',
+      errors: ['BAD_REQUEST'],
+    },
+    auth: 'apiKey',
+    permission: 'prompt:read',
+    metered: false,
+    handler: handleUsage,
+  }),
+  defineRoute({
+    method: 'GET',
+    path: '/usage/breakdown',
+    docs: {
+      operationId: 'getUsageBreakdown',
+      summary: "A month's usage by API key, prompt or version (not metered)",
+      query: [
+        {
+          name: 'group_by',
+          description: 'Dimension to group by. Defaults to prompt',
+          schema: { type: 'string', enum: ['apikey', 'prompt', 'version'] },
+        },
+        {
+          name: 'period',
+          description: 'Month as YYYY-MM (UTC). Defaults to the current month',
+          schema: { type: 'string' },
+        },
+      ],
+      response: 'UsageBreakdown',
+      errors: ['BAD_REQUEST'],
+    },
+    auth: 'apiKey',
+    permission: 'prompt:read',
+    metered: false,
+    handler: handleUsageBreakdown,
+  }),
+  // Authenticated by signature, not API key
+  defineRoute({
+    method: 'POST',
+    path: '/internal/invalidate',
+    docs: {
+      operationId: 'invalidateCache',
+      summary:
+        'CMS cache invalidation webhook, signed with X-Promptly-Timestamp and X-Promptly-Signature',
+      body: 'InvalidationRequest',
+      response: 'InvalidationResponse',
+      errors: ['INVALID_SIGNATURE', 'BAD_REQUEST', 'NOT_FOUND'],
+    },
+    auth: 'public',
+    handler: handleInvalidate,
+  }),
+  defineRoute({
+    method: 'POST',
+    path: '/internal/revocations',
+    docs: {
+      operationId: 'revokeApiKeys',
+      summary:
+        'Deny-list API key hashes immediately, signed with X-Promptly-Timestamp and X-Promptly-Signature',
+      body: 'RevocationRequest',
+      response: 'RevocationResponse',
+      errors: [
+        'INVALID_SIGNATURE',
+        'BAD_REQUEST',
+        'NOT_FOUND',
+        'REVOCATIONS_UNAVAILABLE',
+      ],
+    },
+    auth: 'public',
+    handler: handleRevoke,
+  }),
+  // Authenticated by METRICS_TOKEN, not API key
+  defineRoute({
+    method: 'GET',
+    path: '/internal/metrics',
+    docs: {
+      operationId: 'getMetrics',
+      summary:
+        "This isolate's metrics in Prometheus text format, for a bearer METRICS_TOKEN",
+      response: 'PrometheusText',
+      contentType: 'text/plain; version=0.0.4',
+      errors: ['UNAUTHORIZED', 'NOT_FOUND'],
+    },
+    auth: 'public',
+    handler: handleMetrics,
+  }),
+  defineRoute({
+    method: 'GET',
+    path: '/openapi.json',
+    docs: {
+      operationId: 'getOpenApiDocument',
+      summary: 'This OpenAPI document',
+      response: 'OpenApiDocument',
+    },
+    auth: 'public',
+    handler: async ({ url, apiVersion }) =>
+      jsonResponse(
+        buildOpenApiDocument(routesForVersion(ROUTES, apiVersion), {
+          version: apiVersion,
+          serverUrl: `${url.origin}/${apiVersion}`,
+          errorStatus: ERROR_STATUS,
+        }),
+        200,
+        { 'Cache-Control': 'public, max-age=3600' },
+      ),
+  }),
+];
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': [
+    ...allowedMethods(ROUTES.map((route) => route.method)),
+    'OPTIONS',
+  ].join(', '),
+  'Access-Control-Allow-Headers':
+    'Authorization, Content-Type, If-None-Match, Accept-Version, X-Request-Id',
+  'Access-Control-Expose-Headers':
+    'X-Request-Id, Server-Timing, API-Version, Deprecation, Sunset, ETag, Link, Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset, X-RateLimit-Burst-Limit, X-RateLimit-Burst-Remaining, X-RateLimit-Burst-Reset, X-RateLimit-Burst-Scope',
+  'Access-Control-Max-Age': '86400',
+  // Lets browsers read Server-Timing cross-origin
+  'Timing-Allow-Origin': '*',
+};
+
+/**
+ * Run an API key route: authenticate, enforce the monthly quota (metered
+ * routes only) and burst limits, then call the handler and record usage
+ */
+const runApiKeyRoute = async (
+  route: Extract<Route, { auth: 'apiKey' }>,
+  context: RouteContext<Record<string, string>>,
+): Promise<Response> => {
+  const { request, env, ctx, requestContext } = context;
+
   // Extract and validate Authorization header
   const authHeader = request.headers.get('Authorization');
   if (!authHeader) {
@@ -112,37 +1124,66 @@ export const handleRequest = async (
     );
   }
 
-  const apiKey = bearerMatch[1];
+  const credential = bearerMatch[1];
+  const client: ClientInfo = {
+    origin: request.headers.get('Origin'),
+    ip: request.headers.get('CF-Connecting-IP'),
+  };
 
-  // Verify API key
-  const keyResult = await verifyApiKey(env, apiKey, 'prompt:read');
+  // Client tokens carry their key and organization, so they are verified
+  // from the signature alone; API keys go through the cache and D1
+  let keyResult: ApiKeyResult;
+  if (isClientToken(credential)) {
+    keyResult = await verifyClientToken(env.TOKEN_SECRET, credential);
+    if (keyResult.valid && !route.clientTokens) {
+      keyResult = { valid: false, code: 'TOKEN_OUT_OF_SCOPE' };
+    }
+    if (keyResult.valid) {
+      // A token only works while its issuing key would: not revoked,
+      // disabled or expired, and within the key's and organization's
+      // origin and IP restrictions
+      const issuer = await verifyKeyHash(
+        env,
+        ctx,
+        requestContext,
+        keyResult.keyHash,
+        client,
+      );
+      if (!issuer.valid) {
+        keyResult = issuer;
+      }
+    }
+  } else {
+    keyResult = await verifyApiKey(
+      env,
+      ctx,
+      requestContext,
+      credential,
+      route.permission,
+      client,
+    );
+  }
 
   if (!keyResult.valid) {
-    const statusMap = {
-      INVALID_KEY: 401,
-      DISABLED: 401,
-      EXPIRED: 401,
-      FORBIDDEN: 403,
-    } as const;
-
-    const messageMap = {
-      INVALID_KEY: 'Invalid API key',
-      DISABLED: 'API key is disabled',
-      EXPIRED: 'API key has expired',
-      FORBIDDEN: 'Insufficient permissions',
-    } as const;
-
     return errorResponse(
-      messageMap[keyResult.code],
+      AUTH_ERROR_MESSAGE[keyResult.code],
       keyResult.code,
-      statusMap[keyResult.code],
+      AUTH_ERROR_STATUS[keyResult.code],
     );
   }
 
+  requestContext.organizationId = keyResult.organizationId;
+  requestContext.keyId = keyResult.keyId;
+
   // Check usage limits
-  const usageStatus = await checkUsageLimit(env, keyResult.organizationId);
+  const usageStatus = await checkUsageLimit(
+    env,
+    requestContext,
+    keyResult.organizationId,
+  );
+  requestContext.plan = usageStatus.plan;
 
-  if (!usageStatus.allowed && usageStatus.limit !== null) {
+  if (route.metered && !usageStatus.allowed && usageStatus.limit !== null) {
     const resetUnix = getNextMonthResetUnix();
     const retryAfter = Math.max(0, resetUnix - Math.floor(Date.now() / 1000));
 
@@ -173,52 +1214,223 @@ export const handleRequest = async (
     );
   }
 
-  // List all prompts
-  if (listMatch) {
-    const includeVersions = url.searchParams.get('include_versions') === 'true';
-    const prompts = await fetchPrompts(
-      env,
-      keyResult.organizationId,
-      includeVersions,
+  // Check short-window burst limits (per key and per org)
+  const burst = await timeSpan(
+    requestContext,
+    { layer: 'do', name: 'ratelimit' },
+    () =>
+      checkBurstLimit(
+        getRateLimitStore(env),
+        requestContext,
+        usageStatus.plan,
+        keyResult.keyId,
+        keyResult.organizationId,
+      ),
+  );
+
+  if (!burst.allowed) {
+    const per = burst.windowMs === 1000 ? 'second' : 'minute';
+    const scope = burst.scope === 'key' ? 'API key' : 'organization';
+    return jsonResponse<ErrorResponse>(
+      {
+        error: `Rate limit exceeded (${burst.limit} requests per ${per} per ${scope})`,
+        code: 'RATE_LIMITED',
+      },
+      429,
+      {
+        'Retry-After': String(
+          Math.max(1, Math.ceil(burst.retryAfterMs / 1000)),
+        ),
+        ...rateLimitHeaders(usageStatus),
+        ...burstLimitHeaders(burst),
+      },
     );
-    ctx.waitUntil(incrementUsage(env, keyResult.organizationId));
-    return jsonResponse<PromptResponse[]>(
-      prompts,
-      200,
-      rateLimitHeaders(usageStatus),
+  }
+
+  const served: UsageAttribution[] = [];
+  const response = await route.handler({
+    ...context,
+    key: keyResult,
+    usage: usageStatus,
+    limitHeaders: {
+      ...rateLimitHeaders(usageStatus),
+      ...burstLimitHeaders(burst),
+    },
+    meter: (attributions) => {
+      served.push(...attributions);
+    },
+  });
+
+  // Increment usage counter (fire-and-forget) - see incrementUsage for what
+  // counts; 304s, errors and HEAD requests are free
+  if (
+    route.metered &&
+    response.ok &&
+    request.method !== 'HEAD' &&
+    served.length > 0
+  ) {
+    ctx.waitUntil(
+      incrementUsage(env, requestContext, keyResult.organizationId, served),
     );
   }
 
-  // Single prompt
-  const promptId = singleMatch?.[1] as string;
+  return response;
+};
 
-  // Get optional version parameter
-  const version = url.searchParams.get('version') ?? undefined;
+/**
+ * Match a request against the routes of its API version and run the route
+ */
+const dispatch = async (
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  url: URL,
+  requestContext: RequestContext,
+  { version, pathname }: { version: ApiVersion; pathname: string },
+): Promise<Response> => {
+  const match = matchRoute(
+    routesForVersion(ROUTES, version),
+    request.method,
+    pathname,
+  );
 
-  // Fetch the prompt
-  const promptResult = await fetchPrompt(
+  if (match.type === 'not_found') {
+    return errorResponse('Not found', 'NOT_FOUND', 404);
+  }
+
+  if (match.type === 'method_not_allowed') {
+    return jsonResponse<ErrorResponse>(
+      { error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+      405,
+      { Allow: match.allow.join(', ') },
+    );
+  }
+
+  const { route, params } = match;
+  requestContext.route = route.path;
+  const context = {
+    request,
     env,
-    promptId,
-    keyResult.organizationId,
-    version,
-  );
+    ctx,
+    url,
+    params,
+    apiVersion: version,
+    requestContext,
+  };
+  return route.auth === 'apiKey'
+    ? runApiKeyRoute(route, context)
+    : route.handler(context);
+};
 
-  if ('error' in promptResult) {
-    const statusMap: Record<string, number> = {
-      NOT_FOUND: 404,
-      VERSION_NOT_FOUND: 404,
-      BAD_REQUEST: 400,
-    };
-    const status = statusMap[promptResult.code] ?? 500;
-    return errorResponse(promptResult.error, promptResult.code, status);
+/**
+ * Add the request ID to JSON error bodies, so an error a client reports
+ * can be found in the logs
+ */
+const withRequestId = async (
+  response: Response,
+  requestContext: RequestContext,
+): Promise<BodyInit | null> => {
+  if (
+    response.status < 400 ||
+    !response.headers.get('Content-Type')?.startsWith('application/json')
+  ) {
+    return response.body;
   }
+  const body = (await response.json()) as ErrorResponse;
+  requestContext.errorCode = body.code;
+  return JSON.stringify({ ...body, requestId: requestContext.requestId });
+};
 
-  // Increment usage counter (fire-and-forget)
-  ctx.waitUntil(incrementUsage(env, keyResult.organizationId));
+/**
+ * Finish a response: request ID, Server-Timing and any extra headers, the
+ * request ID in error bodies, the request's log line and its metrics
+ */
+const finishResponse = async (
+  request: Request,
+  env: Env,
+  requestContext: RequestContext,
+  response: Response,
+  extraHeaders: Record<string, string> = {},
+): Promise<Response> => {
+  const headers = new Headers(response.headers);
+  for (const [name, value] of Object.entries({
+    ...extraHeaders,
+    ...requestContextHeaders(requestContext),
+  })) {
+    headers.set(name, value);
+  }
 
-  return jsonResponse<PromptResponse>(
-    promptResult,
-    200,
-    rateLimitHeaders(usageStatus),
+  // Keys with an origin allowlist get the origin echoed (or no CORS grant
+  // at all when it isn't allowed) instead of the default *
+  if (requestContext.corsOrigin !== undefined) {
+    if (requestContext.corsOrigin === null) {
+      headers.delete('Access-Control-Allow-Origin');
+    } else {
+      headers.set('Access-Control-Allow-Origin', requestContext.corsOrigin);
+    }
+    headers.append('Vary', 'Origin');
+  }
+
+  // HEAD runs the GET route for its headers and drops the body
+  const body = await withRequestId(response, requestContext);
+
+  logRequest(requestContext, request, response.status);
+  recordRequestMetrics(metricsSinks(env), requestContext, response.status);
+
+  return new Response(request.method === 'HEAD' ? null : body, {
+    status: response.status,
+    headers,
+  });
+};
+
+/**
+ * Handle incoming requests
+ */
+export const handleRequest = async (
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  requestContext: RequestContext = createRequestContext(request),
+): Promise<Response> => {
+  const url = new URL(request.url);
+
+  // Handle CORS preflight
+  if (request.method === 'OPTIONS') {
+    return finishResponse(
+      request,
+      env,
+      requestContext,
+      new Response(null, { status: 204, headers: CORS_HEADERS }),
+    );
+  }
+
+  // /v1/prompts and /prompts (an alias for the default version) both work
+  const resolved = resolveApiVersion(
+    url.pathname,
+    request.headers.get('Accept-Version'),
+  );
+  if ('error' in resolved) {
+    return finishResponse(
+      request,
+      env,
+      requestContext,
+      errorResponse(resolved.error, resolved.code, 400),
+    );
+  }
+
+  const response = await dispatch(
+    request,
+    env,
+    ctx,
+    url,
+    requestContext,
+    resolved,
+  );
+  return finishResponse(
+    request,
+    env,
+    requestContext,
+    response,
+    apiVersionHeaders(resolved.version),
   );
 };
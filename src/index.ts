@@ -1,27 +1,45 @@
 import { handleRequest } from './handler.ts';
+import { metricsSinks, recordRequestMetrics } from './metrics.ts';
+import { createRequestContext, logRequest } from './request-context.ts';
 import type { Env } from './types.ts';
 
+export { RateLimitCounter } from './rate-limit-counter.ts';
+export { RevocationList } from './revocation-list.ts';
+
 export default {
   async fetch(
     request: Request,
     env: Env,
     ctx: ExecutionContext,
   ): Promise<Response> {
+    const requestContext = createRequestContext(request);
     try {
-      return await handleRequest(request, env, ctx);
+      return await handleRequest(request, env, ctx, requestContext);
     } catch (error) {
-      console.error('Unhandled error:', error);
+      console.error(
+        JSON.stringify({
+          event: 'unhandled_error',
+          requestId: requestContext.requestId,
+          error: error instanceof Error ? error.message : String(error),
+          stack: error instanceof Error ? error.stack : undefined,
+        }),
+      );
+      logRequest(requestContext, request, 500);
+      recordRequestMetrics(metricsSinks(env), requestContext, 500);
 
       return new Response(
         JSON.stringify({
           error: 'Internal server error',
           code: 'INTERNAL_ERROR',
+          requestId: requestContext.requestId,
         }),
         {
           status: 500,
           headers: {
             'Content-Type': 'application/json',
             'Access-Control-Allow-Origin': '*',
+            'Access-Control-Expose-Headers': 'X-Request-Id',
+            'X-Request-Id': requestContext.requestId,
           },
         },
       );
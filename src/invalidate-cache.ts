@@ -0,0 +1,222 @@
+import {
+  deleteByPrefixFromCache,
+  deleteFromCache,
+  negativeKey,
+} from './cache.ts';
+import type { Env, InvalidationEvent } from './types.ts';
+
+// Reject signed requests older than this to limit replay
+const SIGNATURE_TOLERANCE = 300; // seconds
+
+// Upper bound on events per webhook call
+const MAX_EVENTS = 100;
+
+/**
+ * Decode a hex string into bytes, returning null if it isn't valid hex
+ */
+const hexToBytes = (hex: string): Uint8Array | null => {
+  if (hex.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(hex)) {
+    return null;
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = Number.parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+};
+
+/**
+ * Verify an HMAC-SHA256 webhook signature.
+ * The signed payload is `${timestamp}.${body}` and the signature header is
+ * `sha256=<hex>`. crypto.subtle.verify compares in constant time.
+ */
+export const verifySignature = async (
+  secret: string,
+  timestamp: string | null,
+  body: string,
+  signature: string | null,
+): Promise<boolean> => {
+  if (!timestamp || !signature || !/^\d+$/.test(timestamp)) {
+    return false;
+  }
+
+  const age = Math.abs(
+    Math.floor(Date.now() / 1000) - Number.parseInt(timestamp, 10),
+  );
+  if (age > SIGNATURE_TOLERANCE) {
+    return false;
+  }
+
+  const signatureBytes = hexToBytes(signature.replace(/^sha256=/, ''));
+  if (!signatureBytes) {
+    return false;
+  }
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['verify'],
+  );
+
+  return crypto.subtle.verify(
+    'HMAC',
+    key,
+    signatureBytes,
+    encoder.encode(`${timestamp}.${body}`),
+  );
+};
+
+/**
+ * Check that a value is a non-empty string
+ */
+const isId = (value: unknown): value is string =>
+  typeof value === 'string' && value.length > 0;
+
+/**
+ * Validate a single invalidation event
+ */
+const isInvalidationEvent = (value: unknown): value is InvalidationEvent => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const event = value as Record<string, unknown>;
+  switch (event.type) {
+    case 'prompt.published':
+    case 'prompt.updated':
+    case 'prompt.deleted':
+      return isId(event.promptId);
+    case 'label.moved':
+      return isId(event.promptId) && isId(event.label);
+    case 'apikey.created':
+    case 'apikey.updated':
+    case 'apikey.revoked':
+      return isId(event.keyHash);
+    case 'plan.changed':
+    case 'organization.updated':
+      return isId(event.organizationId);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Parse the webhook body: `{ "events": [...] }`
+ */
+export const parseInvalidationEvents = (
+  body: string,
+): InvalidationEvent[] | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return null;
+  }
+
+  const events = (parsed as { events?: unknown } | null)?.events;
+  if (
+    !Array.isArray(events) ||
+    events.length === 0 ||
+    events.length > MAX_EVENTS ||
+    !events.every(isInvalidationEvent)
+  ) {
+    return null;
+  }
+
+  return events;
+};
+
+/**
+ * Cache keys and key prefixes affected by an event
+ */
+const targetsForEvent = (
+  event: InvalidationEvent,
+): { keys: string[]; prefixes: string[] } => {
+  switch (event.type) {
+    case 'prompt.published':
+      // Pinned versions are immutable; only moving pointers need purging,
+      // along with any record that the prompt or a version was missing
+      return {
+        keys: [
+          `version:${event.promptId}:latest`,
+          negativeKey(`prompt:${event.promptId}`),
+        ],
+        prefixes: [
+          `version:${event.promptId}:range:`,
+          negativeKey(`version:${event.promptId}:`),
+        ],
+      };
+    case 'prompt.updated':
+      return {
+        keys: [
+          `prompt:${event.promptId}`,
+          negativeKey(`prompt:${event.promptId}`),
+        ],
+        prefixes: [],
+      };
+    case 'prompt.deleted':
+      return {
+        keys: [`prompt:${event.promptId}`],
+        prefixes: [`version:${event.promptId}:`, `label:${event.promptId}:`],
+      };
+    case 'label.moved':
+      return { keys: [`label:${event.promptId}:${event.label}`], prefixes: [] };
+    case 'apikey.created':
+      return { keys: [negativeKey(`apikey:${event.keyHash}`)], prefixes: [] };
+    case 'apikey.updated':
+      return {
+        keys: [
+          `apikey:${event.keyHash}`,
+          negativeKey(`apikey:${event.keyHash}`),
+        ],
+        prefixes: [],
+      };
+    case 'apikey.revoked':
+      return { keys: [`apikey:${event.keyHash}`], prefixes: [] };
+    case 'plan.changed':
+      return { keys: [`plan:${event.organizationId}`], prefixes: [] };
+    case 'organization.updated':
+      return { keys: [`policy:${event.organizationId}`], prefixes: [] };
+  }
+};
+
+/**
+ * Purge the cache entries affected by a batch of events from L1 and L2.
+ * Returns the purged keys and prefixes (prefixes end with "*").
+ */
+export const invalidateCache = async (
+  env: Env,
+  events: InvalidationEvent[],
+): Promise<string[]> => {
+  const keys = new Set<string>();
+  const prefixes = new Set<string>();
+  for (const event of events) {
+    const targets = targetsForEvent(event);
+    for (const key of targets.keys) {
+      keys.add(key);
+    }
+    for (const prefix of targets.prefixes) {
+      prefixes.add(prefix);
+    }
+  }
+
+  await Promise.all([
+    deleteFromCache(env.PROMPTS_CACHE, [...keys]),
+    ...[...prefixes].map((prefix) =>
+      deleteByPrefixFromCache(env.PROMPTS_CACHE, prefix),
+    ),
+  ]);
+
+  console.log(
+    JSON.stringify({
+      event: 'cache_invalidate',
+      types: events.map((e) => e.type),
+      keys: keys.size,
+      prefixes: prefixes.size,
+    }),
+  );
+
+  return [...keys, ...[...prefixes].map((prefix) => `${prefix}*`)];
+};
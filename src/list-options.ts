@@ -0,0 +1,141 @@
+import type {
+  ListPromptsOptions,
+  PromptCursor,
+  PromptSort,
+  PromptSortField,
+} from './types.ts';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+const MAX_SEARCH_LENGTH = 200;
+
+const SORT_FIELDS: readonly PromptSortField[] = [
+  'name',
+  'created_at',
+  'updated_at',
+];
+
+/**
+ * Format a sort as its query parameter value (e.g. "-updated_at")
+ */
+export const formatSort = (sort: PromptSort): string =>
+  `${sort.direction === 'desc' ? '-' : ''}${sort.field}`;
+
+/**
+ * Parse the sort parameter: a field name, prefixed with "-" for descending
+ */
+const parseSort = (value: string | null): PromptSort | null => {
+  if (!value) {
+    return { field: 'name', direction: 'asc' };
+  }
+  const direction = value.startsWith('-') ? 'desc' : 'asc';
+  const field = value.replace(/^-/, '') as PromptSortField;
+  return SORT_FIELDS.includes(field) ? { field, direction } : null;
+};
+
+/**
+ * Encode a cursor as base64url JSON (UTF-8, since names can be any text)
+ */
+export const encodeCursor = (cursor: PromptCursor): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify(cursor));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+};
+
+/**
+ * Decode a cursor, returning null if it is malformed
+ */
+const decodeCursor = (value: string): PromptCursor | null => {
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    const json = new TextDecoder().decode(
+      Uint8Array.from(binary, (char) => char.charCodeAt(0)),
+    );
+    const cursor = JSON.parse(json) as PromptCursor;
+    if (
+      typeof cursor.sort !== 'string' ||
+      typeof cursor.id !== 'string' ||
+      (typeof cursor.value !== 'string' && typeof cursor.value !== 'number')
+    ) {
+      return null;
+    }
+    return cursor;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Parse GET /prompts query parameters.
+ * Pagination is opt-in: without `limit` or `cursor` the whole (filtered)
+ * list is returned as a bare array, as it always has been.
+ */
+export const parseListPromptsQuery = (
+  params: URLSearchParams,
+): ListPromptsOptions | { error: string; code: string } => {
+  const sort = parseSort(params.get('sort'));
+  if (!sort) {
+    return {
+      error: `Invalid sort. Use one of: ${SORT_FIELDS.join(', ')} (prefix with - for descending)`,
+      code: 'BAD_REQUEST',
+    };
+  }
+
+  const search = params.get('q')?.trim() || undefined;
+  if (search && search.length > MAX_SEARCH_LENGTH) {
+    return {
+      error: `Search query must be at most ${MAX_SEARCH_LENGTH} characters`,
+      code: 'BAD_REQUEST',
+    };
+  }
+
+  let updatedSince: number | undefined;
+  const updatedSinceParam = params.get('updated_since');
+  if (updatedSinceParam) {
+    updatedSince = Date.parse(updatedSinceParam);
+    if (Number.isNaN(updatedSince)) {
+      return {
+        error: 'Invalid updated_since. Use an ISO 8601 timestamp',
+        code: 'BAD_REQUEST',
+      };
+    }
+  }
+
+  const limitParam = params.get('limit');
+  const cursorParam = params.get('cursor');
+  const paginated = limitParam !== null || cursorParam !== null;
+
+  let limit: number | undefined;
+  if (paginated) {
+    limit = limitParam === null ? DEFAULT_PAGE_SIZE : Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return {
+        error: `Invalid limit. Use an integer from 1 to ${MAX_PAGE_SIZE}`,
+        code: 'BAD_REQUEST',
+      };
+    }
+  }
+
+  let cursor: PromptCursor | undefined;
+  if (cursorParam) {
+    const decoded = decodeCursor(cursorParam);
+    if (!decoded || decoded.sort !== formatSort(sort)) {
+      return {
+        error: 'Invalid cursor. Cursors must be reused with the same sort',
+        code: 'BAD_REQUEST',
+      };
+    }
+    cursor = decoded;
+  }
+
+  return {
+    includeVersions: params.get('include_versions') === 'true',
+    search,
+    updatedSince,
+    sort,
+    limit,
+    cursor,
+  };
+};
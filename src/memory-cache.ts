@@ -1,27 +1,146 @@
+import type { MemoryCacheOptions, MemoryCacheStats } from './types.ts';
+
 type CacheEntry<T> = {
   data: T;
   expiresAt: number;
+  bytes: number;
+};
+
+// Defaults sized for a 128 MB isolate: the L1 tier may use a few MB
+const DEFAULT_OPTIONS: MemoryCacheOptions = {
+  maxEntries: 5000,
+  maxBytes: 8 * 1024 * 1024,
+  sweepIntervalMs: 60_000,
 };
 
-const cache = new Map<string, CacheEntry<unknown>>();
+/**
+ * Approximate size of an entry: key plus JSON-serialised value, two bytes
+ * per UTF-16 code unit as V8 may store them
+ */
+const entrySize = (key: string, data: unknown): number =>
+  (key.length + (JSON.stringify(data)?.length ?? 0)) * 2;
 
-export const memoryCache = {
-  get<T>(key: string): T | null {
+/**
+ * In-isolate LRU cache with TTLs, an entry cap and an approximate byte
+ * budget. Map order is recency order: reads move an entry to the end and
+ * eviction takes from the front. Expired entries are dropped when read and
+ * by a sweep that runs on writes at most once per `sweepIntervalMs`.
+ */
+export const createMemoryCache = (
+  options: Partial<MemoryCacheOptions> = {},
+) => {
+  const { maxEntries, maxBytes, sweepIntervalMs } = {
+    ...DEFAULT_OPTIONS,
+    ...options,
+  };
+  const cache = new Map<string, CacheEntry<unknown>>();
+  const counters = { hits: 0, misses: 0, evictions: 0, expirations: 0 };
+  let bytes = 0;
+  let lastSweep = Date.now();
+
+  const remove = (key: string): void => {
     const entry = cache.get(key);
-    if (!entry) {
-      return null;
-    }
-    if (Date.now() > entry.expiresAt) {
+    if (entry) {
+      bytes -= entry.bytes;
       cache.delete(key);
-      return null;
     }
-    return entry.data as T;
-  },
-
-  set<T>(key: string, data: T, ttlSeconds: number): void {
-    cache.set(key, {
-      data,
-      expiresAt: Date.now() + ttlSeconds * 1000,
-    });
-  },
+  };
+
+  const sweep = (now: number): void => {
+    lastSweep = now;
+    for (const [key, entry] of cache) {
+      if (now > entry.expiresAt) {
+        remove(key);
+        counters.expirations++;
+      }
+    }
+  };
+
+  return {
+    get<T>(key: string): T | null {
+      const entry = cache.get(key);
+      if (!entry) {
+        counters.misses++;
+        return null;
+      }
+      if (Date.now() > entry.expiresAt) {
+        remove(key);
+        counters.expirations++;
+        counters.misses++;
+        return null;
+      }
+      // Move to the most recently used end
+      cache.delete(key);
+      cache.set(key, entry);
+      counters.hits++;
+      return entry.data as T;
+    },
+
+    set<T>(key: string, data: T, ttlSeconds: number): void {
+      const now = Date.now();
+      if (now - lastSweep >= sweepIntervalMs) {
+        sweep(now);
+      }
+
+      remove(key);
+      const size = entrySize(key, data);
+      // Never flush the whole tier for one oversized value
+      if (size > maxBytes) {
+        return;
+      }
+
+      for (const oldest of cache.keys()) {
+        if (cache.size < maxEntries && bytes + size <= maxBytes) {
+          break;
+        }
+        remove(oldest);
+        counters.evictions++;
+      }
+
+      cache.set(key, { data, expiresAt: now + ttlSeconds * 1000, bytes: size });
+      bytes += size;
+    },
+
+    delete(key: string): void {
+      remove(key);
+    },
+
+    deleteByPrefix(prefix: string): void {
+      for (const key of cache.keys()) {
+        if (key.startsWith(prefix)) {
+          remove(key);
+        }
+      }
+    },
+
+    /**
+     * Drop every entry and reset the counters, as a fresh isolate would
+     */
+    clear(): void {
+      cache.clear();
+      bytes = 0;
+      counters.hits = 0;
+      counters.misses = 0;
+      counters.evictions = 0;
+      counters.expirations = 0;
+      lastSweep = Date.now();
+    },
+
+    stats(): MemoryCacheStats {
+      return {
+        ...counters,
+        entries: cache.size,
+        bytes,
+        maxEntries,
+        maxBytes,
+      };
+    },
+  };
 };
+
+export type MemoryCache = ReturnType<typeof createMemoryCache>;
+
+/**
+ * The L1 tier shared by every request in this isolate
+ */
+export const memoryCache = createMemoryCache();
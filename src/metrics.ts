@@ -0,0 +1,325 @@
+import { elapsedMs } from './request-context.ts';
+import type {
+  Env,
+  MemoryCacheStats,
+  MetricDefinition,
+  MetricsSink,
+  RequestContext,
+} from './types.ts';
+
+/**
+ * Everything the worker measures. Label values are passed to sinks in the
+ * order listed here.
+ */
+export const METRICS = {
+  cacheLookups: {
+    name: 'promptly_cache_lookups_total',
+    type: 'counter',
+    help: 'Cache lookups by tier (l1 memory, l2 KV), key type and outcome',
+    labels: ['layer', 'type', 'outcome'],
+  },
+  d1QueryDuration: {
+    name: 'promptly_d1_query_duration_ms',
+    type: 'histogram',
+    help: 'D1 query latency in milliseconds by statement',
+    labels: ['statement'],
+  },
+  durableObjectCallDuration: {
+    name: 'promptly_do_call_duration_ms',
+    type: 'histogram',
+    help: 'Durable Object call latency in milliseconds (revocation, ratelimit)',
+    labels: ['object'],
+  },
+  responses: {
+    name: 'promptly_responses_total',
+    type: 'counter',
+    help: 'Responses by route and status',
+    labels: ['route', 'status'],
+  },
+  requestDuration: {
+    name: 'promptly_request_duration_ms',
+    type: 'histogram',
+    help: 'Request latency in milliseconds by route',
+    labels: ['route'],
+  },
+  rateLimited: {
+    name: 'promptly_rate_limited_total',
+    type: 'counter',
+    help: '429 responses by plan and code (USAGE_LIMIT_EXCEEDED or RATE_LIMITED)',
+    labels: ['plan', 'code'],
+  },
+} as const satisfies Record<string, MetricDefinition>;
+
+// Histogram upper bounds in milliseconds. Workers only advance timers across
+// I/O, so L1-only requests land in the first bucket.
+export const LATENCY_BUCKETS = [
+  1, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000,
+];
+
+// Route label for requests that matched no route
+const UNMATCHED_ROUTE = 'unmatched';
+
+type Series = {
+  labelValues: readonly string[];
+  value: number; // counters
+  buckets: number[]; // histograms: per-bucket (non-cumulative) counts
+  sum: number;
+  count: number;
+};
+
+/**
+ * Escape a label value for the Prometheus text format
+ */
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const formatLabels = (
+  names: readonly string[],
+  values: readonly string[],
+  extra: [string, string][] = [],
+): string => {
+  const pairs = [
+    ...names.map((name, i): [string, string] => [name, values[i] ?? '']),
+    ...extra,
+  ];
+  return pairs.length === 0
+    ? ''
+    : `{${pairs.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+};
+
+/**
+ * In-memory sink: aggregates observations per label set and renders them in
+ * the Prometheus text exposition format
+ */
+export const createMemoryMetrics = () => {
+  const metrics = new Map<
+    string,
+    { definition: MetricDefinition; series: Map<string, Series> }
+  >();
+
+  const record = (
+    definition: MetricDefinition,
+    labelValues: readonly string[],
+    value: number,
+  ): void => {
+    const metric = metrics.get(definition.name) ?? {
+      definition,
+      series: new Map<string, Series>(),
+    };
+    metrics.set(definition.name, metric);
+
+    const seriesKey = JSON.stringify(labelValues);
+    const series = metric.series.get(seriesKey) ?? {
+      labelValues,
+      value: 0,
+      buckets: LATENCY_BUCKETS.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    metric.series.set(seriesKey, series);
+
+    if (definition.type === 'counter') {
+      series.value += value;
+      return;
+    }
+    const bucket = LATENCY_BUCKETS.findIndex((bound) => value <= bound);
+    if (bucket !== -1) {
+      series.buckets[bucket] = (series.buckets[bucket] ?? 0) + 1;
+    }
+    series.sum += value;
+    series.count += 1;
+  };
+
+  const renderSeries = (
+    { name, type, labels }: MetricDefinition,
+    series: Series,
+  ): string[] => {
+    if (type === 'counter') {
+      return [
+        `${name}${formatLabels(labels, series.labelValues)} ${series.value}`,
+      ];
+    }
+    let cumulative = 0;
+    return [
+      ...LATENCY_BUCKETS.map((bound, i) => {
+        cumulative += series.buckets[i] ?? 0;
+        return `${name}_bucket${formatLabels(labels, series.labelValues, [['le', String(bound)]])} ${cumulative}`;
+      }),
+      `${name}_bucket${formatLabels(labels, series.labelValues, [['le', '+Inf']])} ${series.count}`,
+      `${name}_sum${formatLabels(labels, series.labelValues)} ${series.sum}`,
+      `${name}_count${formatLabels(labels, series.labelValues)} ${series.count}`,
+    ];
+  };
+
+  /**
+   * Prometheus text format (version 0.0.4)
+   */
+  const render = (): string =>
+    [...metrics.values()]
+      .flatMap(({ definition, series }) => [
+        `# HELP ${definition.name} ${definition.help}`,
+        `# TYPE ${definition.name} ${definition.type}`,
+        ...[...series.values()].flatMap((entry) =>
+          renderSeries(definition, entry),
+        ),
+      ])
+      .map((line) => `${line}\n`)
+      .join('');
+
+  return {
+    record,
+    render,
+    reset: (): void => {
+      metrics.clear();
+    },
+  };
+};
+
+/**
+ * Metrics aggregated in this isolate since it started, served by
+ * GET /internal/metrics
+ */
+export const isolateMetrics = createMemoryMetrics();
+
+/**
+ * Workers Analytics Engine sink: one data point per observation, with the
+ * metric name as the index, then the metric name and label values as blobs
+ */
+export const createAnalyticsEngineSink = (
+  dataset: AnalyticsEngineDataset,
+): MetricsSink => ({
+  record: (definition, labelValues, value) => {
+    dataset.writeDataPoint({
+      indexes: [definition.name],
+      blobs: [definition.name, ...labelValues],
+      doubles: [value],
+    });
+  },
+});
+
+/**
+ * The sinks for this environment: always the isolate's in-memory registry,
+ * plus Analytics Engine when the METRICS binding is configured
+ */
+export const metricsSinks = (env: Env): MetricsSink[] =>
+  env.METRICS
+    ? [isolateMetrics, createAnalyticsEngineSink(env.METRICS)]
+    : [isolateMetrics];
+
+/**
+ * Record a finished request's metrics from its context: cache lookups
+ * (summed per request, so Analytics Engine gets a handful of points rather
+ * than one per lookup), one latency sample per D1 query and Durable Object
+ * call, the response status and, for 429s, the plan that was limited
+ */
+export const recordRequestMetrics = (
+  sinks: MetricsSink[],
+  requestContext: RequestContext,
+  status: number,
+): void => {
+  const observations: [MetricDefinition, string[], number][] = [];
+
+  const lookups = new Map<string, number>();
+  for (const { layer, name, outcome, durationMs } of requestContext.spans) {
+    if (layer === 'd1') {
+      observations.push([METRICS.d1QueryDuration, [name], durationMs]);
+    } else if (layer === 'do') {
+      observations.push([
+        METRICS.durableObjectCallDuration,
+        [name],
+        durationMs,
+      ]);
+    } else if (outcome && outcome !== 'put') {
+      const key = JSON.stringify([layer, name, outcome]);
+      lookups.set(key, (lookups.get(key) ?? 0) + 1);
+    }
+  }
+  for (const [key, count] of lookups) {
+    observations.push([METRICS.cacheLookups, JSON.parse(key), count]);
+  }
+
+  const route = requestContext.route ?? UNMATCHED_ROUTE;
+  observations.push([METRICS.responses, [route, String(status)], 1]);
+  observations.push([
+    METRICS.requestDuration,
+    [route],
+    elapsedMs(requestContext),
+  ]);
+
+  if (status === 429) {
+    observations.push([
+      METRICS.rateLimited,
+      [requestContext.plan ?? 'unknown', requestContext.errorCode ?? 'unknown'],
+      1,
+    ]);
+  }
+
+  for (const sink of sinks) {
+    for (const [definition, labelValues, value] of observations) {
+      sink.record(definition, labelValues, value);
+    }
+  }
+};
+
+/**
+ * Prometheus text for the in-memory cache's own counters and size. These
+ * are read from the cache at scrape time rather than recorded per request.
+ */
+export const renderMemoryCacheStats = (stats: MemoryCacheStats): string =>
+  (
+    [
+      [
+        'hits_total',
+        'counter',
+        'L1 lookups that found a live entry',
+        stats.hits,
+      ],
+      [
+        'misses_total',
+        'counter',
+        'L1 lookups that found nothing',
+        stats.misses,
+      ],
+      [
+        'evictions_total',
+        'counter',
+        'L1 entries evicted to stay within the entry or byte limit',
+        stats.evictions,
+      ],
+      [
+        'expirations_total',
+        'counter',
+        'L1 entries dropped after their TTL',
+        stats.expirations,
+      ],
+      ['entries', 'gauge', 'L1 entries held', stats.entries],
+      ['bytes', 'gauge', 'Approximate L1 size in bytes', stats.bytes],
+      ['max_entries', 'gauge', 'L1 entry limit', stats.maxEntries],
+      ['max_bytes', 'gauge', 'L1 byte budget', stats.maxBytes],
+    ] as const
+  )
+    .map(
+      ([suffix, type, help, value]) =>
+        `# HELP promptly_memory_cache_${suffix} ${help}\n# TYPE promptly_memory_cache_${suffix} ${type}\npromptly_memory_cache_${suffix} ${value}\n`,
+    )
+    .join('');
+
+/**
+ * Compare a presented bearer token with the configured one. Both are hashed
+ * first so the comparison runs over equal-length digests in constant time.
+ */
+export const verifyMetricsToken = async (
+  expected: string,
+  presented: string,
+): Promise<boolean> => {
+  const digest = async (token: string) =>
+    new Uint8Array(
+      await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token)),
+    );
+  const [a, b] = await Promise.all([digest(expected), digest(presented)]);
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= (a[i] ?? 0) ^ (b[i] ?? 0);
+  }
+  return difference === 0;
+};
@@ -0,0 +1,662 @@
+import {
+  DEFAULT_TOKEN_TTL,
+  MAX_TOKEN_PROMPTS,
+  MAX_TOKEN_TTL,
+  MIN_TOKEN_TTL,
+} from './client-token.ts';
+import { MAX_BATCH_SIZE } from './fetch-prompt.ts';
+import type { ApiVersion, JsonSchema, Route, RouteDocs } from './types.ts';
+
+const ref = (name: string): JsonSchema => ({
+  $ref: `#/components/schemas/${name}`,
+});
+
+const nullable = (type: string): JsonSchema => ({ type: [type, 'null'] });
+
+/**
+ * Response and request body schemas. Kept in step with types.ts; the OpenAPI
+ * test validates real handler responses against them, and
+ * additionalProperties: false makes a new undocumented field fail it.
+ */
+const SCHEMAS: Record<string, JsonSchema> = {
+  ErrorResponse: {
+    type: 'object',
+    required: ['error', 'code'],
+    properties: {
+      error: { type: 'string' },
+      code: { type: 'string' },
+      requestId: { type: 'string' },
+    },
+    additionalProperties: false,
+  },
+  RateLimitResponse: {
+    type: 'object',
+    required: ['error', 'code', 'usage', 'upgradeUrl'],
+    properties: {
+      error: { type: 'string' },
+      code: { type: 'string' },
+      requestId: { type: 'string' },
+      usage: {
+        type: 'object',
+        required: ['limit', 'used', 'remaining', 'resetAt'],
+        properties: {
+          limit: { type: 'integer' },
+          used: { type: 'integer' },
+          remaining: { type: 'integer' },
+          resetAt: { type: 'string', format: 'date-time' },
+        },
+        additionalProperties: false,
+      },
+      upgradeUrl: { type: 'string', format: 'uri' },
+    },
+    additionalProperties: false,
+  },
+  VariableError: {
+    type: 'object',
+    required: ['name', 'code', 'message'],
+    properties: {
+      name: { type: 'string' },
+      code: {
+        type: 'string',
+        enum: ['MISSING_VARIABLE', 'UNKNOWN_VARIABLE', 'INVALID_VARIABLE_TYPE'],
+      },
+      message: { type: 'string' },
+    },
+    additionalProperties: false,
+  },
+  VariableErrorResponse: {
+    type: 'object',
+    required: ['error', 'code', 'errors'],
+    properties: {
+      error: { type: 'string' },
+      code: { type: 'string' },
+      requestId: { type: 'string' },
+      errors: { type: 'array', items: ref('VariableError') },
+    },
+    additionalProperties: false,
+  },
+  PublishedVersion: {
+    type: 'object',
+    required: ['version', 'userMessage'],
+    properties: {
+      version: { type: 'string' },
+      userMessage: nullable('string'),
+    },
+    additionalProperties: false,
+  },
+  PromptResponse: {
+    type: 'object',
+    required: [
+      'promptId',
+      'promptName',
+      'version',
+      'systemMessage',
+      'userMessage',
+      'config',
+    ],
+    properties: {
+      promptId: { type: 'string' },
+      promptName: { type: 'string' },
+      version: { type: 'string', description: 'Semver, e.g. 2.1.0' },
+      systemMessage: nullable('string'),
+      userMessage: nullable('string'),
+      config: {
+        type: 'object',
+        description: 'Model settings and the variable schema',
+      },
+      label: {
+        type: 'string',
+        description: 'Release label that resolved to `version`',
+      },
+      publishedVersions: { type: 'array', items: ref('PublishedVersion') },
+    },
+    additionalProperties: false,
+  },
+  PromptListResponse: {
+    type: 'object',
+    required: ['data', 'pagination'],
+    properties: {
+      data: { type: 'array', items: ref('PromptResponse') },
+      pagination: {
+        type: 'object',
+        required: ['limit', 'nextCursor'],
+        properties: {
+          limit: { type: 'integer' },
+          nextCursor: nullable('string'),
+        },
+        additionalProperties: false,
+      },
+    },
+    additionalProperties: false,
+  },
+  PromptList: {
+    description:
+      'A bare array, or a page envelope when `limit` or `cursor` is given',
+    oneOf: [
+      { type: 'array', items: ref('PromptResponse') },
+      ref('PromptListResponse'),
+    ],
+  },
+  RenderRequest: {
+    type: 'object',
+    properties: {
+      variables: { type: 'object', description: 'Values by variable name' },
+    },
+  },
+  BatchRequest: {
+    type: 'object',
+    required: ['prompts'],
+    properties: {
+      prompts: {
+        type: 'array',
+        minItems: 1,
+        maxItems: MAX_BATCH_SIZE,
+        items: {
+          type: 'object',
+          required: ['promptId'],
+          properties: {
+            promptId: { type: 'string', minLength: 1 },
+            version: { type: 'string' },
+            label: { type: 'string' },
+          },
+        },
+      },
+    },
+  },
+  BatchResult: {
+    oneOf: [
+      {
+        type: 'object',
+        required: ['promptId', 'status', 'prompt'],
+        properties: {
+          promptId: { type: 'string' },
+          status: { const: 200 },
+          prompt: ref('PromptResponse'),
+        },
+        additionalProperties: false,
+      },
+      {
+        type: 'object',
+        required: ['promptId', 'status', 'error'],
+        properties: {
+          promptId: { type: 'string' },
+          status: { type: 'integer' },
+          error: ref('ErrorResponse'),
+        },
+        additionalProperties: false,
+      },
+    ],
+  },
+  BatchResponse: {
+    type: 'object',
+    required: ['results'],
+    properties: {
+      results: { type: 'array', items: ref('BatchResult') },
+    },
+    additionalProperties: false,
+  },
+  DailyUsage: {
+    type: 'object',
+    required: ['date', 'count'],
+    properties: {
+      date: { type: 'string', format: 'date' },
+      count: { type: 'integer' },
+    },
+    additionalProperties: false,
+  },
+  UsageReport: {
+    type: 'object',
+    required: [
+      'plan',
+      'period',
+      'used',
+      'limit',
+      'remaining',
+      'resetAt',
+      'daily',
+    ],
+    properties: {
+      plan: { type: 'string', enum: ['free', 'pro', 'enterprise'] },
+      period: { type: 'string', description: 'YYYY-MM (UTC)' },
+      used: { type: 'integer' },
+      limit: nullable('integer'),
+      remaining: nullable('integer'),
+      resetAt: { type: 'string', format: 'date-time' },
+      daily: {
+        type: 'object',
+        required: ['from', 'to', 'total', 'days'],
+        properties: {
+          from: { type: 'string', format: 'date' },
+          to: { type: 'string', format: 'date' },
+          total: { type: 'integer' },
+          days: { type: 'array', items: ref('DailyUsage') },
+        },
+        additionalProperties: false,
+      },
+    },
+    additionalProperties: false,
+  },
+  UsageBreakdown: {
+    type: 'object',
+    required: ['period', 'groupBy', 'items'],
+    properties: {
+      period: { type: 'string' },
+      groupBy: { type: 'string', enum: ['apikey', 'prompt', 'version'] },
+      items: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['count'],
+          properties: {
+            apiKeyId: { type: 'string' },
+            promptId: nullable('string'),
+            promptName: { type: 'string' },
+            version: nullable('string'),
+            count: { type: 'integer' },
+          },
+          additionalProperties: false,
+        },
+      },
+    },
+    additionalProperties: false,
+  },
+  InvalidationRequest: {
+    type: 'object',
+    required: ['events'],
+    properties: {
+      events: {
+        type: 'array',
+        minItems: 1,
+        maxItems: 100,
+        items: {
+          type: 'object',
+          required: ['type'],
+          properties: {
+            type: {
+              type: 'string',
+              enum: [
+                'prompt.published',
+                'prompt.updated',
+                'prompt.deleted',
+                'label.moved',
+                'apikey.created',
+                'apikey.updated',
+                'apikey.revoked',
+                'plan.changed',
+                'organization.updated',
+              ],
+            },
+            promptId: { type: 'string' },
+            label: { type: 'string' },
+            keyHash: { type: 'string' },
+            organizationId: { type: 'string' },
+          },
+        },
+      },
+    },
+  },
+  InvalidationResponse: {
+    type: 'object',
+    required: ['purged'],
+    properties: {
+      purged: { type: 'array', items: { type: 'string' } },
+    },
+    additionalProperties: false,
+  },
+  RevocationRequest: {
+    type: 'object',
+    required: ['keyHashes'],
+    properties: {
+      keyHashes: {
+        type: 'array',
+        minItems: 1,
+        maxItems: 100,
+        items: { type: 'string', description: 'base64url SHA-256 of the key' },
+      },
+      reason: { type: 'string' },
+    },
+  },
+  RevocationResponse: {
+    type: 'object',
+    required: ['revoked'],
+    properties: {
+      revoked: { type: 'array', items: { type: 'string' } },
+    },
+    additionalProperties: false,
+  },
+  TokenRequest: {
+    type: 'object',
+    required: ['prompts'],
+    properties: {
+      prompts: {
+        type: 'array',
+        minItems: 1,
+        maxItems: MAX_TOKEN_PROMPTS,
+        items: {
+          type: 'object',
+          required: ['promptId'],
+          properties: {
+            promptId: { type: 'string' },
+            versions: {
+              type: 'array',
+              minItems: 1,
+              items: {
+                type: 'string',
+                description: 'Exact version or range, e.g. 2.1.0 or ^2.0.0',
+              },
+            },
+          },
+        },
+      },
+      expiresIn: {
+        type: 'integer',
+        minimum: MIN_TOKEN_TTL,
+        maximum: MAX_TOKEN_TTL,
+        description: `Lifetime in seconds. Defaults to ${DEFAULT_TOKEN_TTL}`,
+      },
+    },
+  },
+  TokenResponse: {
+    type: 'object',
+    required: ['token', 'tokenType', 'expiresIn', 'expiresAt'],
+    properties: {
+      token: { type: 'string' },
+      tokenType: { type: 'string', enum: ['Bearer'] },
+      expiresIn: { type: 'integer' },
+      expiresAt: { type: 'string', format: 'date-time' },
+    },
+    additionalProperties: false,
+  },
+  OpenApiDocument: {
+    type: 'object',
+    description: 'This document',
+  },
+  PrometheusText: {
+    type: 'string',
+    description: 'Prometheus text exposition format 0.0.4',
+  },
+};
+
+// Error codes whose body isn't a plain ErrorResponse
+const ERROR_SCHEMAS: Record<string, string> = {
+  USAGE_LIMIT_EXCEEDED: 'RateLimitResponse',
+  MISSING_VARIABLE: 'VariableErrorResponse',
+  UNKNOWN_VARIABLE: 'VariableErrorResponse',
+  INVALID_VARIABLE_TYPE: 'VariableErrorResponse',
+};
+
+// Codes any route can return: a wrong method, an unknown API-Version, or an
+// unhandled exception (answered by index.ts)
+const COMMON_ERRORS = [
+  'METHOD_NOT_ALLOWED',
+  'UNSUPPORTED_API_VERSION',
+  'INTERNAL_ERROR',
+];
+
+// Codes every API key route can return
+const AUTH_ERRORS = [
+  'UNAUTHORIZED',
+  'INVALID_KEY',
+  'DISABLED',
+  'EXPIRED',
+  'REVOKED',
+  'ORIGIN_NOT_ALLOWED',
+  'IP_NOT_ALLOWED',
+  'FORBIDDEN',
+  'TOKEN_EXPIRED',
+  'INVALID_TOKEN_SIGNATURE',
+  'TOKEN_OUT_OF_SCOPE',
+  'RATE_LIMITED',
+];
+
+const integerHeader = (description: string) => ({
+  description,
+  schema: { type: 'integer' },
+});
+
+const HEADERS: Record<string, JsonSchema> = {
+  'X-Request-Id': {
+    description:
+      'The request X-Request-Id if given, otherwise generated; also in error bodies and logs',
+    schema: { type: 'string' },
+  },
+  'Server-Timing': {
+    description:
+      'Time spent in the memory cache (l1), KV (l2) and D1 (d1), plus the total',
+    schema: { type: 'string' },
+  },
+  'API-Version': {
+    description: 'API version that served the response',
+    schema: { type: 'string' },
+  },
+  'X-RateLimit-Limit': integerHeader(
+    'Monthly call limit (omitted on unlimited plans)',
+  ),
+  'X-RateLimit-Remaining': integerHeader('Calls left this month'),
+  'X-RateLimit-Reset': integerHeader('Unix time the monthly quota resets'),
+  'X-RateLimit-Burst-Limit': integerHeader(
+    'Requests allowed in the tightest burst window',
+  ),
+  'X-RateLimit-Burst-Remaining': integerHeader(
+    'Requests left in the burst window',
+  ),
+  'X-RateLimit-Burst-Reset': integerHeader('Unix time the burst window ends'),
+  'X-RateLimit-Burst-Scope': {
+    description: 'Whether the burst limit is per key or per organization',
+    schema: { type: 'string', enum: ['key', 'organization'] },
+  },
+  'Retry-After': integerHeader('Seconds to wait before retrying'),
+  ETag: {
+    description: 'Strong validator for If-None-Match',
+    schema: { type: 'string' },
+  },
+  'Cache-Control': { schema: { type: 'string' } },
+  Link: {
+    description: 'rel="next" link to the next page',
+    schema: { type: 'string' },
+  },
+};
+
+const headerRefs = (names: string[]) =>
+  Object.fromEntries(
+    names.map((name) => [name, { $ref: `#/components/headers/${name}` }]),
+  );
+
+const RATE_LIMIT_HEADERS = [
+  'X-RateLimit-Limit',
+  'X-RateLimit-Remaining',
+  'X-RateLimit-Reset',
+  'X-RateLimit-Burst-Limit',
+  'X-RateLimit-Burst-Remaining',
+  'X-RateLimit-Burst-Reset',
+  'X-RateLimit-Burst-Scope',
+];
+
+const jsonContent = (schema: JsonSchema) => ({
+  'application/json': { schema },
+});
+
+/**
+ * Error responses for a route, grouped by status. Each status lists its
+ * codes, and the body schema narrows `code` to them.
+ */
+const errorResponses = (
+  codes: string[],
+  errorStatus: Record<string, number>,
+): Record<string, unknown> => {
+  const byStatus = new Map<number, string[]>();
+  for (const code of new Set(codes)) {
+    const status = errorStatus[code];
+    if (status === undefined) {
+      throw new Error(`No status for error code ${code}`);
+    }
+    byStatus.set(status, [...(byStatus.get(status) ?? []), code]);
+  }
+
+  return Object.fromEntries(
+    [...byStatus].map(([status, statusCodes]) => {
+      const schemas = [
+        ...new Set(
+          statusCodes.map((code) => ERROR_SCHEMAS[code] ?? 'ErrorResponse'),
+        ),
+      ].map((name) => ref(name));
+      const schema =
+        schemas.length === 1
+          ? { ...schemas[0], properties: { code: { enum: statusCodes } } }
+          : { oneOf: schemas, properties: { code: { enum: statusCodes } } };
+
+      return [
+        String(status),
+        {
+          description: statusCodes.join(', '),
+          headers: headerRefs(
+            status === 429 ? ['X-Request-Id', 'Retry-After'] : ['X-Request-Id'],
+          ),
+          content: jsonContent(schema),
+        },
+      ];
+    }),
+  );
+};
+
+/**
+ * Build the OpenAPI operation for a route
+ */
+const operation = (
+  route: Route,
+  docs: RouteDocs,
+  errorStatus: Record<string, number>,
+) => {
+  const pathParams = route.path
+    .split('/')
+    .filter((segment) => segment.startsWith(':'))
+    .map((segment) => ({
+      name: segment.slice(1),
+      in: 'path',
+      required: true,
+      schema: { type: 'string' },
+    }));
+  const queryParams = (docs.query ?? []).map((param) => ({
+    ...param,
+    in: 'query',
+  }));
+
+  const apiKey = route.auth === 'apiKey';
+  const codes = [
+    ...(docs.errors ?? []),
+    ...(apiKey ? AUTH_ERRORS : []),
+    ...(apiKey && route.metered ? ['USAGE_LIMIT_EXCEEDED'] : []),
+    ...COMMON_ERRORS,
+  ];
+
+  const okHeaders = [
+    'X-Request-Id',
+    'Server-Timing',
+    'API-Version',
+    ...(apiKey ? RATE_LIMIT_HEADERS : []),
+    ...(docs.conditional ? ['ETag', 'Cache-Control'] : []),
+    ...(docs.query?.some((param) => param.name === 'cursor') ? ['Link'] : []),
+  ];
+
+  return {
+    operationId: docs.operationId,
+    summary: docs.summary,
+    parameters: [
+      ...pathParams,
+      ...queryParams,
+      {
+        name: 'X-Request-Id',
+        in: 'header',
+        description: 'Correlation ID to propagate (letters, digits, ._:-)',
+        schema: { type: 'string', maxLength: 128 },
+      },
+      ...(docs.conditional
+        ? [
+            {
+              name: 'If-None-Match',
+              in: 'header',
+              description: 'ETag of a cached copy; unchanged gives 304',
+              schema: { type: 'string' },
+            },
+          ]
+        : []),
+    ],
+    requestBody: docs.body
+      ? { required: true, content: jsonContent(ref(docs.body)) }
+      : undefined,
+    security: apiKey ? [{ bearerAuth: [] }] : [],
+    responses: {
+      '200': {
+        description: 'OK',
+        headers: headerRefs(okHeaders),
+        content: {
+          [docs.contentType ?? 'application/json']: {
+            schema: ref(docs.response),
+          },
+        },
+      },
+      ...(docs.conditional
+        ? {
+            '304': {
+              description: 'Not modified; free',
+              headers: headerRefs(['X-Request-Id', 'ETag']),
+            },
+          }
+        : {}),
+      ...errorResponses(codes, errorStatus),
+    },
+  };
+};
+
+/**
+ * Build the OpenAPI 3.1 document for an API version from its route table.
+ * `errorStatus` maps every error code to its HTTP status.
+ */
+export const buildOpenApiDocument = (
+  routes: Route[],
+  options: {
+    version: ApiVersion;
+    serverUrl: string;
+    errorStatus: Record<string, number>;
+  },
+) => {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const route of routes) {
+    const path = route.path.replace(/:([^/]+)/g, '{$1}');
+    paths[path] = {
+      ...paths[path],
+      [route.method.toLowerCase()]: operation(
+        route,
+        route.docs,
+        options.errorStatus,
+      ),
+    };
+  }
+
+  // undefined fields (optional bodies and headers) drop out here
+  return JSON.parse(
+    JSON.stringify({
+      openapi: '3.1.0',
+      info: {
+        title: 'Promptly API',
+        version: options.version,
+        description:
+          'Fetch, render and list prompts managed in Promptly CMS. Every GET route also answers HEAD.',
+      },
+      servers: [{ url: options.serverUrl }],
+      paths,
+      components: {
+        schemas: SCHEMAS,
+        headers: HEADERS,
+        securitySchemes: {
+          bearerAuth: {
+            type: 'http',
+            scheme: 'bearer',
+            description:
+              'Promptly API key, or a client token from POST /tokens on the prompt routes',
+          },
+        },
+      },
+    }),
+  ) as Record<string, unknown>;
+};
@@ -0,0 +1,141 @@
+import { parseRange, parseVersion, satisfiesRange } from './semver.ts';
+import type { PermissionsObject, ResourceScope } from './types.ts';
+
+// Matches any action in a grant, e.g. {"prompt": ["*"]}
+const ANY_ACTION = '*';
+
+/**
+ * Split "resource:action" (e.g. "prompt:read"), or null if malformed
+ */
+const parsePermission = (
+  permission: string,
+): { resource: string; action: string } | null => {
+  const [resource, action, ...rest] = permission.split(':');
+  if (!resource || !action || rest.length > 0) {
+    return null;
+  }
+  return { resource, action };
+};
+
+/**
+ * Check a value against a pattern where `*` matches any run of characters
+ * and everything else is literal
+ */
+export const matchesPattern = (pattern: string, value: string): boolean =>
+  new RegExp(
+    `^${pattern
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*')}$`,
+  ).test(value);
+
+/**
+ * Work out which resources a key may use for a permission. Grants come in
+ * two shapes:
+ *
+ * - `{"prompt": ["read"]}` covers every prompt in the organization
+ * - `{"prompt:checkout-*": ["read"]}` covers prompts whose ID matches
+ *
+ * `*` as an action grants every action on that resource. Returns null when
+ * nothing grants the permission.
+ */
+export const resourceScope = (
+  permissions: PermissionsObject,
+  requiredPermission: string,
+): ResourceScope | null => {
+  const required = parsePermission(requiredPermission);
+  if (!required) {
+    return null;
+  }
+
+  const patterns: string[] = [];
+  for (const [grant, actions] of Object.entries(permissions)) {
+    if (
+      !Array.isArray(actions) ||
+      !(actions.includes(required.action) || actions.includes(ANY_ACTION))
+    ) {
+      continue;
+    }
+    if (grant === required.resource) {
+      return { type: 'all' };
+    }
+    const prefix = `${required.resource}:`;
+    if (grant.startsWith(prefix) && grant.length > prefix.length) {
+      patterns.push(grant.slice(prefix.length));
+    }
+  }
+
+  return patterns.length > 0 ? { type: 'patterns', patterns } : null;
+};
+
+/**
+ * Check whether a scope covers a resource ID. Client token scopes name
+ * their prompts exactly.
+ */
+export const inScope = (scope: ResourceScope, id: string): boolean => {
+  switch (scope.type) {
+    case 'all':
+      return true;
+    case 'patterns':
+      return scope.patterns.some((pattern) => matchesPattern(pattern, id));
+    case 'token':
+      return scope.prompts.some(({ promptId }) => promptId === id);
+  }
+};
+
+/**
+ * Turn a scope pattern into a SQLite GLOB: `*` stays a wildcard, while `?`
+ * and `[` are bracketed so they match literally
+ */
+const toSqliteGlob = (pattern: string): string =>
+  pattern.replace(/[?[]/g, '[$&]');
+
+/**
+ * SQL condition limiting `column` to the prompt IDs a scope covers, with
+ * its binding, or null when the scope covers every prompt. One binding
+ * however many patterns, to stay under D1's parameter limit. Qualify an
+ * `id` column: json_each has one of its own.
+ */
+export const scopeCondition = (
+  scope: ResourceScope,
+  column: string,
+): { sql: string; binding: string } | null => {
+  if (scope.type === 'all') {
+    return null;
+  }
+  const patterns =
+    scope.type === 'patterns'
+      ? scope.patterns
+      : scope.prompts.map(({ promptId }) => promptId); // never contain *
+  return {
+    sql: `EXISTS (SELECT 1 FROM json_each(?) WHERE ${column} GLOB json_each.value)`,
+    binding: JSON.stringify(patterns.map(toSqliteGlob)),
+  };
+};
+
+/**
+ * Check whether a scope covers a resolved prompt version. Only client
+ * tokens narrow versions; key scopes cover every version of a prompt.
+ */
+export const versionInScope = (
+  scope: ResourceScope,
+  promptId: string,
+  version: string,
+): boolean => {
+  if (scope.type !== 'token') {
+    return inScope(scope, promptId);
+  }
+  const semver = parseVersion(version);
+  return scope.prompts.some(({ promptId: id, versions }) => {
+    if (id !== promptId) {
+      return false;
+    }
+    if (!versions) {
+      return true;
+    }
+    return versions.some((input) => {
+      const range = parseRange(input);
+      return semver !== null && range !== null && satisfiesRange(semver, range);
+    });
+  });
+};
@@ -0,0 +1,23 @@
+import { DurableObject } from 'cloudflare:workers';
+import { consumeWindows, pruneWindows } from './rate-limit.ts';
+import type {
+  Env,
+  RateLimitDecision,
+  RateLimitRule,
+  RateLimitWindow,
+} from './types.ts';
+
+/**
+ * Durable Object holding burst rate-limit windows for one organization.
+ * Counters live in memory only: if the object is evicted the windows reset,
+ * which at worst allows one extra burst.
+ */
+export class RateLimitCounter extends DurableObject<Env> {
+  private windows = new Map<string, RateLimitWindow>();
+
+  consume(rules: RateLimitRule[]): RateLimitDecision {
+    const now = Date.now();
+    pruneWindows(this.windows, now);
+    return consumeWindows(this.windows, rules, now);
+  }
+}
@@ -0,0 +1,262 @@
+import type {
+  BurstLimits,
+  Env,
+  Plan,
+  RateLimitDecision,
+  RateLimitRule,
+  RateLimitStore,
+  RateLimitWindow,
+  RequestContext,
+} from './types.ts';
+
+/**
+ * Short-window limits per plan. Monthly quotas live in usage.ts; these only
+ * stop runaway loops from burning a quota (or hammering D1) in seconds.
+ */
+export const BURST_LIMITS: Record<Plan, BurstLimits> = {
+  free: {
+    key: { perSecond: 5, perMinute: 60 },
+    organization: { perSecond: 10, perMinute: 120 },
+  },
+  pro: {
+    key: { perSecond: 20, perMinute: 600 },
+    organization: { perSecond: 50, perMinute: 1500 },
+  },
+  enterprise: {
+    key: { perSecond: 100, perMinute: 3000 },
+    organization: { perSecond: 250, perMinute: 10000 },
+  },
+};
+
+// Prune idle windows from the in-memory store every N checks
+const PRUNE_INTERVAL = 1000;
+
+/**
+ * Build the rules for a request: per-key and per-org, per second and minute
+ */
+export const buildBurstRules = (
+  plan: Plan,
+  keyId: string,
+  organizationId: string,
+): RateLimitRule[] => {
+  const limits = BURST_LIMITS[plan];
+  return [
+    {
+      key: `key:${keyId}:s`,
+      scope: 'key',
+      limit: limits.key.perSecond,
+      windowMs: 1000,
+    },
+    {
+      key: `key:${keyId}:m`,
+      scope: 'key',
+      limit: limits.key.perMinute,
+      windowMs: 60_000,
+    },
+    {
+      key: `org:${organizationId}:s`,
+      scope: 'organization',
+      limit: limits.organization.perSecond,
+      windowMs: 1000,
+    },
+    {
+      key: `org:${organizationId}:m`,
+      scope: 'organization',
+      limit: limits.organization.perMinute,
+      windowMs: 60_000,
+    },
+  ];
+};
+
+/**
+ * Roll a window forward to the one containing `now`
+ */
+const advanceWindow = (
+  window: RateLimitWindow | undefined,
+  windowMs: number,
+  now: number,
+): RateLimitWindow => {
+  const start = Math.floor(now / windowMs) * windowMs;
+  if (!window) {
+    return { start, windowMs, current: 0, previous: 0 };
+  }
+  if (start === window.start) {
+    return window;
+  }
+  // The old current window becomes "previous" only if it was the one before
+  const previous = start - window.start === windowMs ? window.current : 0;
+  return { start, windowMs, current: 0, previous };
+};
+
+/**
+ * Sliding-window estimate: the previous window's count weighted by how much
+ * of it still overlaps the trailing window, plus the current count
+ */
+const slidingCount = (window: RateLimitWindow, now: number): number => {
+  const elapsed = (now - window.start) / window.windowMs;
+  return window.previous * (1 - elapsed) + window.current;
+};
+
+/**
+ * Milliseconds until one more hit fits under the limit
+ */
+const retryAfterMs = (
+  window: RateLimitWindow,
+  limit: number,
+  now: number,
+): number => {
+  const untilNextWindow = window.start + window.windowMs - now;
+  // Only the previous window's share decays within the current window
+  if (window.current + 1 > limit || window.previous === 0) {
+    return untilNextWindow;
+  }
+  const excess = slidingCount(window, now) + 1 - limit;
+  const decayPerMs = window.previous / window.windowMs;
+  return Math.min(untilNextWindow, Math.ceil(excess / decayPerMs));
+};
+
+/**
+ * Check and record one hit against every rule (sliding window counter).
+ * A hit is recorded only if all rules allow it, so rejected requests don't
+ * extend a lock-out. Shared by the in-memory and Durable Object stores.
+ */
+export const consumeWindows = (
+  windows: Map<string, RateLimitWindow>,
+  rules: RateLimitRule[],
+  now: number,
+): RateLimitDecision => {
+  const advanced = rules.map((rule) =>
+    advanceWindow(windows.get(rule.key), rule.windowMs, now),
+  );
+
+  const decisions = rules.map((rule, i): RateLimitDecision => {
+    const window = advanced[i] as RateLimitWindow;
+    const count = slidingCount(window, now);
+    const allowed = count + 1 <= rule.limit;
+    return {
+      allowed,
+      scope: rule.scope,
+      limit: rule.limit,
+      windowMs: rule.windowMs,
+      remaining: Math.max(0, Math.floor(rule.limit - count - 1)),
+      resetAt: window.start + window.windowMs,
+      retryAfterMs: allowed ? 0 : retryAfterMs(window, rule.limit, now),
+    };
+  });
+
+  const blocked = decisions
+    .filter((decision) => !decision.allowed)
+    .sort((a, b) => b.retryAfterMs - a.retryAfterMs);
+  const allowed = blocked.length === 0;
+
+  // Rejected hits aren't counted, but windows still roll forward
+  rules.forEach((rule, i) => {
+    const window = advanced[i] as RateLimitWindow;
+    windows.set(
+      rule.key,
+      allowed ? { ...window, current: window.current + 1 } : window,
+    );
+  });
+
+  // Report the rule that blocks longest, or the one with least headroom
+  const [decision] = allowed
+    ? decisions.sort((a, b) => a.remaining - b.remaining)
+    : blocked;
+  return decision as RateLimitDecision;
+};
+
+/**
+ * Drop windows that can no longer affect a sliding count
+ */
+export const pruneWindows = (
+  windows: Map<string, RateLimitWindow>,
+  now: number,
+): void => {
+  for (const [key, window] of windows) {
+    if (now - window.start >= window.windowMs * 2) {
+      windows.delete(key);
+    }
+  }
+};
+
+/**
+ * In-memory store. Counts are per isolate, so limits are approximate when
+ * traffic spreads over many isolates; used in tests and as a fallback when
+ * no RATE_LIMITER Durable Object binding is configured.
+ */
+export const createMemoryRateLimitStore = (): RateLimitStore & {
+  clear(): void;
+} => {
+  const windows = new Map<string, RateLimitWindow>();
+  let checks = 0;
+
+  return {
+    async consume(_scope, rules) {
+      const now = Date.now();
+      checks++;
+      if (checks % PRUNE_INTERVAL === 0) {
+        pruneWindows(windows, now);
+      }
+      return consumeWindows(windows, rules, now);
+    },
+    clear() {
+      windows.clear();
+    },
+  };
+};
+
+/**
+ * Durable Object store: one RateLimitCounter instance per organization, so
+ * every key of an org is counted in one place with a single round trip
+ */
+export const createDurableObjectRateLimitStore = (
+  namespace: NonNullable<Env['RATE_LIMITER']>,
+): RateLimitStore => ({
+  async consume(scope, rules) {
+    const stub = namespace.get(namespace.idFromName(scope));
+    return stub.consume(rules);
+  },
+});
+
+// Isolate-wide fallback store
+const memoryStore = createMemoryRateLimitStore();
+
+/**
+ * Pick the counter store for this environment
+ */
+export const getRateLimitStore = (env: Env): RateLimitStore =>
+  env.RATE_LIMITER
+    ? createDurableObjectRateLimitStore(env.RATE_LIMITER)
+    : memoryStore;
+
+/**
+ * Check burst limits for a request against the plan's rules
+ */
+export const checkBurstLimit = async (
+  store: RateLimitStore,
+  requestContext: RequestContext,
+  plan: Plan,
+  keyId: string,
+  organizationId: string,
+): Promise<RateLimitDecision> => {
+  const decision = await store.consume(
+    organizationId,
+    buildBurstRules(plan, keyId, organizationId),
+  );
+
+  if (!decision.allowed) {
+    console.log(
+      JSON.stringify({
+        event: 'rate_limited',
+        requestId: requestContext.requestId,
+        organizationId,
+        keyId,
+        plan,
+        scope: decision.scope,
+        windowMs: decision.windowMs,
+      }),
+    );
+  }
+
+  return decision;
+};
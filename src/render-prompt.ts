@@ -0,0 +1,179 @@
+import type {
+  PromptResponse,
+  SchemaField,
+  VariableError,
+  Variables,
+} from './types.ts';
+
+// Matches ${name} placeholders, tolerating whitespace inside the braces
+const PLACEHOLDER_PATTERN = /\$\{\s*([^}\s]+)\s*\}/g;
+
+/**
+ * Collect the placeholder names referenced by a message
+ */
+const extractPlaceholders = (message: string | null): string[] => {
+  if (!message) {
+    return [];
+  }
+  return Array.from(message.matchAll(PLACEHOLDER_PATTERN), (m) => m[1] ?? '');
+};
+
+/**
+ * Read the variable schema from a prompt config, ignoring malformed entries
+ */
+const getSchema = (config: Record<string, unknown>): SchemaField[] => {
+  if (!Array.isArray(config.schema)) {
+    return [];
+  }
+  return config.schema.filter(
+    (field): field is SchemaField =>
+      typeof field === 'object' &&
+      field !== null &&
+      typeof (field as SchemaField).name === 'string',
+  );
+};
+
+/**
+ * Check a value against a schema type. Unknown schema types accept anything.
+ */
+const matchesType = (value: unknown, type: string | undefined): boolean => {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return (
+        typeof value === 'object' && value !== null && !Array.isArray(value)
+      );
+    default:
+      return true;
+  }
+};
+
+/**
+ * Describe a value's type for error messages
+ */
+const describeType = (value: unknown): string => {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+};
+
+/**
+ * Read a variable the caller passed, ignoring inherited properties such as
+ * `constructor` or `toString`
+ */
+const readVariable = (variables: Variables, name: string): unknown =>
+  Object.hasOwn(variables, name) ? variables[name] : undefined;
+
+/**
+ * Validate variables against the prompt's schema and placeholders.
+ * A variable is required when it is declared in the schema (unless
+ * `required: false`) or referenced by a placeholder. When a schema is
+ * present, variables it doesn't declare and no placeholder uses are unknown.
+ */
+export const validateVariables = (
+  prompt: PromptResponse,
+  variables: Variables,
+): VariableError[] => {
+  const schema = getSchema(prompt.config);
+  const schemaByName = new Map(schema.map((field) => [field.name, field]));
+  const placeholders = new Set([
+    ...extractPlaceholders(prompt.systemMessage),
+    ...extractPlaceholders(prompt.userMessage),
+  ]);
+
+  const errors: VariableError[] = [];
+
+  const required = new Set(placeholders);
+  for (const field of schema) {
+    if (field.required !== false) {
+      required.add(field.name);
+    }
+  }
+
+  for (const name of required) {
+    if (readVariable(variables, name) === undefined) {
+      errors.push({
+        name,
+        code: 'MISSING_VARIABLE',
+        message: `Missing required variable "${name}"`,
+      });
+    }
+  }
+
+  for (const [name, value] of Object.entries(variables)) {
+    const field = schemaByName.get(name);
+
+    if (!field) {
+      if (schema.length > 0 && !placeholders.has(name)) {
+        errors.push({
+          name,
+          code: 'UNKNOWN_VARIABLE',
+          message: `Unknown variable "${name}"`,
+        });
+      }
+      continue;
+    }
+
+    if (value !== undefined && !matchesType(value, field.type)) {
+      errors.push({
+        name,
+        code: 'INVALID_VARIABLE_TYPE',
+        message: `Variable "${name}" must be of type ${field.type}, got ${describeType(value)}`,
+      });
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Replace ${name} placeholders with variable values.
+ * Strings are inserted as-is, other values as JSON.
+ */
+export const interpolate = (
+  message: string | null,
+  variables: Variables,
+): string | null => {
+  if (message === null) {
+    return null;
+  }
+  return message.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    const value = readVariable(variables, name);
+    if (value === undefined) {
+      return placeholder;
+    }
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  });
+};
+
+/**
+ * Validate variables and render the prompt's messages
+ */
+export const renderPrompt = (
+  prompt: PromptResponse,
+  variables: Variables,
+): PromptResponse | { errors: VariableError[] } => {
+  const errors = validateVariables(prompt, variables);
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    ...prompt,
+    systemMessage: interpolate(prompt.systemMessage, variables),
+    userMessage: interpolate(prompt.userMessage, variables),
+  };
+};
@@ -0,0 +1,112 @@
+import type { RequestContext, Span } from './types.ts';
+
+// Incoming IDs are echoed in headers and logs, so only accept plain tokens
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Use the caller's X-Request-Id if it is a plain token, otherwise a new UUID
+ */
+export const resolveRequestId = (header: string | null): string =>
+  header && REQUEST_ID_PATTERN.test(header) ? header : crypto.randomUUID();
+
+/**
+ * Create the context for an incoming request
+ */
+export const createRequestContext = (request: Request): RequestContext => ({
+  requestId: resolveRequestId(request.headers.get('X-Request-Id')),
+  startedAt: performance.now(),
+  spans: [],
+});
+
+/**
+ * Record a span that started at `start` (a performance.now() reading)
+ */
+export const recordSpan = (
+  requestContext: RequestContext,
+  span: Omit<Span, 'durationMs'>,
+  start: number,
+): void => {
+  requestContext.spans.push({
+    ...span,
+    durationMs: performance.now() - start,
+  });
+};
+
+/**
+ * Run a step and record how long it took. Workers only advance timers
+ * across I/O, so L1 spans read as ~0ms and L2/D1 spans as the wait.
+ */
+export const timeSpan = async <T>(
+  requestContext: RequestContext,
+  span: Omit<Span, 'durationMs'>,
+  step: () => T | Promise<T>,
+): Promise<T> => {
+  const start = performance.now();
+  try {
+    return await step();
+  } finally {
+    recordSpan(requestContext, span, start);
+  }
+};
+
+/**
+ * Milliseconds since the request arrived
+ */
+export const elapsedMs = (requestContext: RequestContext): number =>
+  performance.now() - requestContext.startedAt;
+
+const round = (ms: number): number => Math.round(ms * 100) / 100;
+
+const spanLabel = ({ name, outcome }: Span): string =>
+  outcome ? `${name} ${outcome}` : name;
+
+/**
+ * Server-Timing header: one entry per span plus the total
+ * e.g. `l1;desc="apikey hit";dur=0, d1;desc="version";dur=12.4, total;dur=15.1`
+ */
+export const serverTimingHeader = (requestContext: RequestContext): string =>
+  [
+    ...requestContext.spans.map(
+      (span) =>
+        `${span.layer};desc="${spanLabel(span)}";dur=${round(span.durationMs)}`,
+    ),
+    `total;dur=${round(elapsedMs(requestContext))}`,
+  ].join(', ');
+
+/**
+ * Headers every response carries
+ */
+export const requestContextHeaders = (
+  requestContext: RequestContext,
+): Record<string, string> => ({
+  'X-Request-Id': requestContext.requestId,
+  'Server-Timing': serverTimingHeader(requestContext),
+});
+
+/**
+ * Write the single structured log line for a finished request
+ */
+export const logRequest = (
+  requestContext: RequestContext,
+  request: Request,
+  status: number,
+): void => {
+  const { pathname } = new URL(request.url);
+  console.log(
+    JSON.stringify({
+      event: 'request',
+      requestId: requestContext.requestId,
+      method: request.method,
+      path: pathname,
+      route: requestContext.route,
+      status,
+      organizationId: requestContext.organizationId,
+      keyId: requestContext.keyId,
+      durationMs: round(elapsedMs(requestContext)),
+      spans: requestContext.spans.map((span) => ({
+        ...span,
+        durationMs: round(span.durationMs),
+      })),
+    }),
+  );
+};
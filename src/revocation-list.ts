@@ -0,0 +1,22 @@
+import { DurableObject } from 'cloudflare:workers';
+import type { Env, RevocationEntry } from './types.ts';
+
+/**
+ * Durable Object holding revoked API key hashes for one shard of the hash
+ * space. Unlike burst counters, entries are persisted: losing one would
+ * let a revoked key back in while its cache entry is warm.
+ */
+export class RevocationList extends DurableObject<Env> {
+  async isRevoked(keyHash: string): Promise<boolean> {
+    return (
+      (await this.ctx.storage.get<RevocationEntry>(`key:${keyHash}`)) !==
+      undefined
+    );
+  }
+
+  async revoke(keyHashes: string[], entry: RevocationEntry): Promise<void> {
+    await this.ctx.storage.put(
+      Object.fromEntries(keyHashes.map((hash) => [`key:${hash}`, entry])),
+    );
+  }
+}
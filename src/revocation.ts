@@ -0,0 +1,174 @@
+import { memoryCache } from './memory-cache.ts';
+import { recordSpan, timeSpan } from './request-context.ts';
+import type {
+  Env,
+  RequestContext,
+  RevocationEntry,
+  RevocationRequest,
+  RevocationStore,
+} from './types.ts';
+
+// Upper bound on key hashes per revocation call (Durable Object storage
+// writes at most 128 keys at once)
+const MAX_KEY_HASHES = 100;
+
+// How long an isolate trusts a "not revoked" answer before asking the
+// Durable Object again: the most a revocation can lag in other isolates
+const NOT_REVOKED_TTL = 5;
+
+/**
+ * L1 key remembering that a key hash wasn't on the deny-list
+ */
+const notRevokedKey = (keyHash: string): string => `notrevoked:${keyHash}`;
+
+/**
+ * Durable Object name for a key hash. The first base64url character spreads
+ * lookups over 64 objects so no single one sees every authenticated request.
+ */
+const shardFor = (keyHash: string): string => `shard:${keyHash.charAt(0)}`;
+
+/**
+ * In-memory store. Revocations only reach this isolate; used in tests and
+ * as a fallback when no REVOCATIONS Durable Object binding is configured.
+ */
+export const createMemoryRevocationStore = (): RevocationStore & {
+  clear(): void;
+} => {
+  const revoked = new Map<string, RevocationEntry>();
+
+  return {
+    async isRevoked(keyHash) {
+      return revoked.has(keyHash);
+    },
+    async revoke(keyHashes, entry) {
+      for (const hash of keyHashes) {
+        revoked.set(hash, entry);
+      }
+    },
+    clear() {
+      revoked.clear();
+    },
+  };
+};
+
+/**
+ * Durable Object store: each hash lives in one RevocationList shard, so a
+ * revocation is visible to every isolate on its next lookup
+ */
+export const createDurableObjectRevocationStore = (
+  namespace: NonNullable<Env['REVOCATIONS']>,
+): RevocationStore => {
+  const stubFor = (keyHash: string) =>
+    namespace.get(namespace.idFromName(shardFor(keyHash)));
+
+  return {
+    async isRevoked(keyHash) {
+      return stubFor(keyHash).isRevoked(keyHash);
+    },
+    async revoke(keyHashes, entry) {
+      const byShard = Map.groupBy(keyHashes, shardFor);
+      await Promise.all(
+        [...byShard.values()].map((hashes) =>
+          stubFor(hashes[0] as string).revoke(hashes, entry),
+        ),
+      );
+    },
+  };
+};
+
+// Isolate-wide fallback store
+const memoryStore = createMemoryRevocationStore();
+
+/**
+ * Pick the revocation store for this environment
+ */
+export const getRevocationStore = (env: Env): RevocationStore =>
+  env.REVOCATIONS
+    ? createDurableObjectRevocationStore(env.REVOCATIONS)
+    : memoryStore;
+
+/**
+ * Whether a key hash is on the deny-list. A "not revoked" answer is kept
+ * in L1 for NOT_REVOKED_TTL, so warm requests skip the Durable Object call.
+ */
+export const isApiKeyRevoked = async (
+  env: Env,
+  requestContext: RequestContext,
+  keyHash: string,
+): Promise<boolean> => {
+  const l1Start = performance.now();
+  const notRevoked = memoryCache.get<true>(notRevokedKey(keyHash)) !== null;
+  recordSpan(
+    requestContext,
+    { layer: 'l1', name: 'revocation', outcome: notRevoked ? 'hit' : 'miss' },
+    l1Start,
+  );
+  if (notRevoked) {
+    return false;
+  }
+
+  const revoked = await timeSpan(
+    requestContext,
+    { layer: 'do', name: 'revocation' },
+    () => getRevocationStore(env).isRevoked(keyHash),
+  );
+  if (!revoked) {
+    memoryCache.set<true>(notRevokedKey(keyHash), true, NOT_REVOKED_TTL);
+  }
+  return revoked;
+};
+
+/**
+ * Parse the revocation body: `{ "keyHashes": [...], "reason"?: "..." }`
+ */
+export const parseRevocationRequest = (
+  body: string,
+): RevocationRequest | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return null;
+  }
+
+  if (typeof parsed !== 'object' || parsed === null) {
+    return null;
+  }
+  const { keyHashes, reason } = parsed as Record<string, unknown>;
+  if (
+    !Array.isArray(keyHashes) ||
+    keyHashes.length === 0 ||
+    keyHashes.length > MAX_KEY_HASHES ||
+    !keyHashes.every((hash) => typeof hash === 'string' && hash.length > 0) ||
+    (reason !== undefined && typeof reason !== 'string')
+  ) {
+    return null;
+  }
+
+  return { keyHashes, reason };
+};
+
+/**
+ * Add key hashes to the deny-list. This isolate forgets its "not revoked"
+ * answers at once; others within NOT_REVOKED_TTL.
+ */
+export const revokeApiKeys = async (
+  env: Env,
+  { keyHashes, reason }: RevocationRequest,
+): Promise<void> => {
+  await getRevocationStore(env).revoke(keyHashes, {
+    revokedAt: Date.now(),
+    ...(reason ? { reason } : {}),
+  });
+  for (const keyHash of keyHashes) {
+    memoryCache.delete(notRevokedKey(keyHash));
+  }
+
+  console.log(
+    JSON.stringify({
+      event: 'apikey_revoked',
+      keys: keyHashes.length,
+      reason,
+    }),
+  );
+};
@@ -0,0 +1,102 @@
+import type { HttpMethod, Route, RouteMatch } from './types.ts';
+
+// Canonical order for Allow and Access-Control-Allow-Methods
+const METHOD_ORDER = ['GET', 'HEAD', 'POST', 'OPTIONS'];
+
+/**
+ * Declare a route, checking its handler against the params in its path
+ */
+export const defineRoute = <Path extends string>(route: Route<Path>): Route =>
+  route as unknown as Route;
+
+/**
+ * Match a path against a pattern, returning its decoded params or null
+ */
+const matchPath = (
+  pattern: string,
+  pathname: string,
+): Record<string, string> | null => {
+  const patternSegments = pattern.split('/');
+  const pathSegments = pathname.split('/');
+  if (patternSegments.length !== pathSegments.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (const [i, segment] of patternSegments.entries()) {
+    const value = pathSegments[i] as string;
+    if (segment.startsWith(':')) {
+      if (!value) {
+        return null;
+      }
+      try {
+        params[segment.slice(1)] = decodeURIComponent(value);
+      } catch {
+        return null;
+      }
+    } else if (segment !== value) {
+      return null;
+    }
+  }
+  return params;
+};
+
+/**
+ * Count the literal segments of a pattern - more literals is more specific
+ */
+const specificity = (pattern: string): number =>
+  pattern.split('/').filter((segment) => !segment.startsWith(':')).length;
+
+/**
+ * Methods a set of routes answers, with HEAD implied by GET
+ */
+export const allowedMethods = (methods: HttpMethod[]): string[] => {
+  const allowed = new Set<string>(methods);
+  if (allowed.has('GET')) {
+    allowed.add('HEAD');
+  }
+  return METHOD_ORDER.filter((method) => allowed.has(method));
+};
+
+/**
+ * Find the route for a request. The most specific matching path wins
+ * (static segments beat params, so /prompts/batch never reaches
+ * /prompts/:promptId); if it has no route for the method, the result is a
+ * 405 listing the methods that path does allow.
+ */
+export const matchRoute = (
+  routes: Route[],
+  method: string,
+  pathname: string,
+): RouteMatch => {
+  let best: { pattern: string; params: Record<string, string> } | null = null;
+  for (const route of routes) {
+    if (best && specificity(route.path) <= specificity(best.pattern)) {
+      continue;
+    }
+    const params = matchPath(route.path, pathname);
+    if (params) {
+      best = { pattern: route.path, params };
+    }
+  }
+
+  if (!best) {
+    return { type: 'not_found' };
+  }
+
+  const pattern = best.pattern;
+  const candidates = routes.filter((route) => route.path === pattern);
+  const routeMethod = method === 'HEAD' ? 'GET' : method;
+  const route = candidates.find(
+    (candidate) => candidate.method === routeMethod,
+  );
+
+  if (!route) {
+    return {
+      type: 'method_not_allowed',
+      allow: allowedMethods(candidates.map((candidate) => candidate.method)),
+    };
+  }
+
+  return { type: 'found', route, params: best.params };
+};
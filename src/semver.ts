@@ -0,0 +1,276 @@
+import type { Comparator, SemVer, VersionRange } from './types.ts';
+
+// Bound the number of comparators so range queries stay under D1's bind limit
+const MAX_COMPARATORS = 16;
+
+const PARTIAL_PATTERN = /^v?(\d+|[xX*])(?:\.(\d+|[xX*])(?:\.(\d+|[xX*]))?)?$/;
+const COMPARATOR_PATTERN = /^(<=|>=|<|>|=|\^|~>?)?(.+)$/;
+const HYPHEN_PATTERN = /^(\S+)\s+-\s+(\S+)$/;
+
+/**
+ * Partially specified version - undefined components are wildcards
+ */
+type PartialVersion = {
+  major?: number;
+  minor?: number;
+  patch?: number;
+};
+
+/**
+ * Parse an exact semver string into components
+ */
+export const parseVersion = (version: string): SemVer | null => {
+  const match = version.match(/^(\d+)\.(\d+)\.(\d+)$/);
+  if (!match) {
+    return null;
+  }
+  const [, majorStr, minorStr, patchStr] = match;
+  if (!majorStr || !minorStr || !patchStr) {
+    return null;
+  }
+  return {
+    major: Number.parseInt(majorStr, 10),
+    minor: Number.parseInt(minorStr, 10),
+    patch: Number.parseInt(patchStr, 10),
+  };
+};
+
+/**
+ * Parse a partial version (e.g. "2", "2.1", "2.x", "*").
+ * Components after the first wildcard are treated as wildcards too.
+ */
+const parsePartial = (input: string): PartialVersion | null => {
+  const match = input.match(PARTIAL_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const partial: PartialVersion = {};
+  const [, major, minor, patch] = match;
+  for (const [part, value] of [
+    ['major', major],
+    ['minor', minor],
+    ['patch', patch],
+  ] as const) {
+    if (value === undefined || !/^\d+$/.test(value)) {
+      break;
+    }
+    partial[part] = Number.parseInt(value, 10);
+  }
+  return partial;
+};
+
+const version = (major: number, minor: number, patch: number): SemVer => ({
+  major,
+  minor,
+  patch,
+});
+
+/**
+ * Lowest version matching a partial (wildcards become 0)
+ */
+const lowerBound = (p: PartialVersion): SemVer =>
+  version(p.major ?? 0, p.minor ?? 0, p.patch ?? 0);
+
+/**
+ * First version above everything matching a partial, or null if unbounded
+ */
+const upperBound = (p: PartialVersion): SemVer | null => {
+  if (p.major === undefined) {
+    return null;
+  }
+  if (p.minor === undefined) {
+    return version(p.major + 1, 0, 0);
+  }
+  if (p.patch === undefined) {
+    return version(p.major, p.minor + 1, 0);
+  }
+  return version(p.major, p.minor, p.patch + 1);
+};
+
+/**
+ * Comparators for a version range [from, to)
+ */
+const between = (from: SemVer, to: SemVer | null): Comparator[] =>
+  to
+    ? [
+        { operator: '>=', version: from },
+        { operator: '<', version: to },
+      ]
+    : [{ operator: '>=', version: from }];
+
+/**
+ * Expand a caret range: changes that don't modify the left-most non-zero part
+ */
+const caret = (p: PartialVersion): Comparator[] => {
+  const from = lowerBound(p);
+  if (p.major === undefined) {
+    return [];
+  }
+  if (p.major > 0 || p.minor === undefined) {
+    return between(from, version(p.major + 1, 0, 0));
+  }
+  if (p.minor > 0 || p.patch === undefined) {
+    return between(from, version(0, p.minor + 1, 0));
+  }
+  return between(from, version(0, 0, p.patch + 1));
+};
+
+/**
+ * Expand a tilde range: patch-level changes if minor is given, else minor-level
+ */
+const tilde = (p: PartialVersion): Comparator[] => {
+  if (p.major === undefined) {
+    return [];
+  }
+  if (p.minor === undefined) {
+    return between(lowerBound(p), version(p.major + 1, 0, 0));
+  }
+  return between(lowerBound(p), version(p.major, p.minor + 1, 0));
+};
+
+/**
+ * Expand a primitive comparator with a possibly partial version
+ */
+const primitive = (operator: string, p: PartialVersion): Comparator[] => {
+  const upper = upperBound(p);
+  switch (operator) {
+    case '>':
+      // Nothing is above "*"
+      return upper
+        ? [{ operator: '>=', version: upper }]
+        : [{ operator: '<', version: version(0, 0, 0) }];
+    case '>=':
+      return p.major === undefined
+        ? []
+        : [{ operator: '>=', version: lowerBound(p) }];
+    case '<':
+      return [{ operator: '<', version: lowerBound(p) }];
+    case '<=':
+      return upper ? [{ operator: '<', version: upper }] : [];
+    default:
+      // "=" or bare version: exact when fully specified, else an X-range
+      return p.patch !== undefined
+        ? [{ operator: '=', version: lowerBound(p) }]
+        : between(lowerBound(p), upper);
+  }
+};
+
+/**
+ * Parse a single comparator token (e.g. "^2.1.0", ">=1.4", "2.x")
+ */
+const parseComparator = (token: string): Comparator[] | null => {
+  const match = token.match(COMPARATOR_PATTERN);
+  if (!match?.[2]) {
+    return null;
+  }
+  const [, operator = '', rest] = match;
+  const partial = parsePartial(rest);
+  if (!partial) {
+    return null;
+  }
+  if (operator === '^') {
+    return caret(partial);
+  }
+  if (operator.startsWith('~')) {
+    return tilde(partial);
+  }
+  return primitive(operator, partial);
+};
+
+/**
+ * Parse one space-separated comparator set (or a hyphen range)
+ */
+const parseComparatorSet = (input: string): Comparator[] | null => {
+  const hyphen = input.match(HYPHEN_PATTERN);
+  if (hyphen?.[1] && hyphen[2]) {
+    const from = parsePartial(hyphen[1]);
+    const to = parsePartial(hyphen[2]);
+    if (!from || !to) {
+      return null;
+    }
+    const upper = upperBound(to);
+    const comparators: Comparator[] = [
+      { operator: '>=', version: lowerBound(from) },
+    ];
+    if (upper) {
+      comparators.push(
+        to.patch !== undefined
+          ? { operator: '<=', version: lowerBound(to) }
+          : { operator: '<', version: upper },
+      );
+    }
+    return comparators;
+  }
+
+  // Allow whitespace between an operator and its version (">= 1.4")
+  const tokens = input
+    .replace(/(<=|>=|<|>|=|\^|~>?)\s+/g, '$1')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  const comparators: Comparator[] = [];
+  for (const token of tokens) {
+    const parsed = parseComparator(token);
+    if (!parsed) {
+      return null;
+    }
+    comparators.push(...parsed);
+  }
+  return comparators;
+};
+
+/**
+ * Parse an npm-style range (e.g. "^2.1.0", "~2.1", "2.x", ">=1.4 <2",
+ * "1.2 - 1.4", "^1 || ^2"). Returns null for invalid or overly long ranges.
+ */
+export const parseRange = (input: string): VersionRange | null => {
+  const sets: Comparator[][] = [];
+  for (const part of input.trim().split('||')) {
+    const set = parseComparatorSet(part.trim());
+    if (!set) {
+      return null;
+    }
+    sets.push(set);
+  }
+
+  const total = sets.reduce((sum, set) => sum + set.length, 0);
+  if (sets.length === 0 || total > MAX_COMPARATORS) {
+    return null;
+  }
+
+  return sets;
+};
+
+/**
+ * Normalize a range string for use in cache keys
+ */
+export const normalizeRange = (input: string): string =>
+  input.trim().replace(/\s+/g, ' ');
+
+/**
+ * Compare two versions (negative if a < b, positive if a > b)
+ */
+export const compareVersions = (a: SemVer, b: SemVer): number =>
+  a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+
+/**
+ * Check whether a version satisfies a parsed range
+ */
+export const satisfiesRange = (v: SemVer, range: VersionRange): boolean =>
+  range.some((set) =>
+    set.every(({ operator, version: target }) => {
+      const cmp = compareVersions(v, target);
+      switch (operator) {
+        case '<':
+          return cmp < 0;
+        case '<=':
+          return cmp <= 0;
+        case '>':
+          return cmp > 0;
+        case '>=':
+          return cmp >= 0;
+        default:
+          return cmp === 0;
+      }
+    }),
+  );
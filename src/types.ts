@@ -1,9 +1,18 @@
+import type { RateLimitCounter } from './rate-limit-counter.ts';
+import type { RevocationList } from './revocation-list.ts';
+
 /**
  * Cloudflare Worker environment bindings
  */
 export type Env = {
   promptly: D1Database;
   PROMPTS_CACHE: KVNamespace;
+  RATE_LIMITER?: DurableObjectNamespace<RateLimitCounter>; // burst limit counters
+  REVOCATIONS?: DurableObjectNamespace<RevocationList>; // API key deny-list
+  INVALIDATION_SECRET?: string; // HMAC secret shared with the CMS
+  METRICS?: AnalyticsEngineDataset; // metrics sink (Workers Analytics Engine)
+  METRICS_TOKEN?: string; // bearer token for GET /internal/metrics
+  TOKEN_SECRET?: string; // HMAC secret for client tokens (POST /tokens)
 };
 
 /**
@@ -16,32 +25,120 @@ export type ApiKeyWithOrgRecord = {
   permissions: string | null; // JSON array of permissions
   enabled: number; // 0 or 1
   expires_at: number | null; // unix timestamp ms
+  metadata: string | null; // JSON, may hold an AccessPolicy
   organization_id: string; // from member table join
 };
 
 /**
- * Permissions format from Better Auth: {"resource": ["action1", "action2"]}
+ * Permissions format from Better Auth: {"resource": ["action1", "action2"]}.
+ * A resource may be narrowed to matching IDs as "resource:pattern".
  */
 export type PermissionsObject = Record<string, string[]>;
 
+/**
+ * Resources a key may use for one permission: all of them in its
+ * organization, only IDs matching one of the patterns (`*` wildcard), or
+ * the exact prompts and versions a client token was issued for
+ */
+export type ResourceScope =
+  | { type: 'all' }
+  | { type: 'patterns'; patterns: string[] }
+  | { type: 'token'; prompts: ClientTokenScope[] };
+
+/**
+ * One prompt a client token may read. Without `versions` any version is
+ * allowed; otherwise the resolved version must satisfy one of the ranges.
+ */
+export type ClientTokenScope = {
+  promptId: string;
+  versions?: string[]; // semver ranges, e.g. "2.1.0" or "^2.0.0"
+};
+
+/**
+ * Claims signed into a client token (HS256 JWT)
+ */
+export type ClientTokenClaims = {
+  iss: string;
+  sub: string; // issuing API key ID
+  kh: string; // issuing key's hash, to check it is still usable
+  org: string; // issuing organization ID, billed for usage
+  prompts: ClientTokenScope[];
+  iat: number; // unix seconds
+  exp: number; // unix seconds
+};
+
+/**
+ * POST /tokens request body
+ */
+export type TokenRequest = {
+  prompts: ClientTokenScope[];
+  expiresIn: number; // seconds
+};
+
+/**
+ * POST /tokens response
+ */
+export type TokenResponse = {
+  token: string;
+  tokenType: 'Bearer';
+  expiresIn: number; // seconds
+  expiresAt: string; // ISO 8601
+};
+
+/**
+ * Where a key (or every key of an organization) may be used from, read
+ * from Better Auth metadata. A list that is absent doesn't restrict.
+ */
+export type AccessPolicy = {
+  allowedOrigins?: string[]; // e.g. "https://app.example.com"
+  allowedIps?: string[]; // CIDR ranges or single addresses, IPv4 or IPv6
+};
+
+/**
+ * Where a request came from, for AccessPolicy checks
+ */
+export type ClientInfo = {
+  origin: string | null; // Origin header
+  ip: string | null; // CF-Connecting-IP header
+};
+
 /**
  * Cached API key data
  */
 export type CachedApiKey = {
+  keyId: string;
   organizationId: string;
   permissions: PermissionsObject;
   enabled: boolean;
   expiresAt: number | null;
+  policy?: AccessPolicy; // only when the key is restricted
 };
 
 /**
  * API key verification result
  */
 export type ApiKeyResult =
-  | { valid: true; organizationId: string; permissions: PermissionsObject }
+  | {
+      valid: true;
+      keyId: string;
+      keyHash: string; // SHA-256 of the key (base64url), as in the cache and deny-list
+      organizationId: string;
+      permissions: PermissionsObject;
+      scope: ResourceScope; // of the permission that was checked
+    }
   | {
       valid: false;
-      code: 'INVALID_KEY' | 'DISABLED' | 'EXPIRED' | 'FORBIDDEN';
+      code:
+        | 'INVALID_KEY'
+        | 'DISABLED'
+        | 'EXPIRED'
+        | 'REVOKED'
+        | 'ORIGIN_NOT_ALLOWED'
+        | 'IP_NOT_ALLOWED'
+        | 'FORBIDDEN'
+        | 'TOKEN_EXPIRED'
+        | 'INVALID_TOKEN_SIGNATURE'
+        | 'TOKEN_OUT_OF_SCOPE';
     };
 
 /**
@@ -52,6 +149,8 @@ export type PromptRecord = {
   organization_id: string;
   name: string;
   description: string;
+  created_at: number; // unix timestamp ms
+  updated_at: number; // unix timestamp ms
   deleted_at: number | null;
 };
 
@@ -80,6 +179,36 @@ export type CachedPrompt = {
   description: string;
 };
 
+/**
+ * Parsed semver components
+ */
+export type SemVer = {
+  major: number;
+  minor: number;
+  patch: number;
+};
+
+/**
+ * Primitive version comparison (e.g. ">= 1.4.0")
+ */
+export type Comparator = {
+  operator: '<' | '<=' | '>' | '>=' | '=';
+  version: SemVer;
+};
+
+/**
+ * Parsed version range: comparator sets joined by "||", each set ANDed
+ */
+export type VersionRange = Comparator[][];
+
+/**
+ * How the `version` query parameter selects a published version
+ */
+export type VersionSelector =
+  | { type: 'latest' }
+  | { type: 'exact'; version: SemVer }
+  | { type: 'range'; range: VersionRange; normalized: string };
+
 /**
  * Cached version data
  */
@@ -90,6 +219,49 @@ export type CachedVersion = {
   config: Record<string, unknown>;
 };
 
+/**
+ * Cached release label pointer (label -> exact version)
+ */
+export type CachedLabel = {
+  version: string;
+};
+
+/**
+ * TTLs for a tiered cache write
+ */
+export type CacheWriteOptions = {
+  kvTtl?: number; // seconds; 0 = no expiry, undefined = skip KV (L1 only)
+  l1Ttl?: number; // seconds
+  staleTtl?: number; // seconds past kvTtl the entry may be served while it refreshes
+};
+
+/**
+ * Stale-while-revalidate for a cache read: a stale entry is returned at
+ * once and `refresh` reloads it in the background via `ctx.waitUntil`
+ */
+export type CacheRevalidation = {
+  ctx: ExecutionContext;
+  refresh: () => Promise<void>;
+};
+
+/**
+ * Cache read for a key with negative entries: `knownMissing` is set when
+ * there's no entry but a recent D1 read found no row
+ */
+export type CacheLookup<T> = {
+  value: T | null;
+  knownMissing: boolean;
+};
+
+/**
+ * KV metadata stored with entries that can be served stale or that need
+ * a shorter L1 TTL than the default when promoted
+ */
+export type CacheMetadata = {
+  staleAt?: number; // unix ms
+  l1Ttl?: number; // seconds
+};
+
 /**
  * Published version summary (for include_versions)
  */
@@ -108,15 +280,129 @@ export type PromptResponse = {
   systemMessage: string | null;
   userMessage: string | null;
   config: Record<string, unknown>;
+  label?: string; // release label that resolved to `version`, if requested
   publishedVersions?: PublishedVersion[];
 };
 
+/**
+ * Sortable prompt columns for GET /prompts
+ */
+export type PromptSortField = 'name' | 'created_at' | 'updated_at';
+
+/**
+ * Sort order for GET /prompts
+ */
+export type PromptSort = {
+  field: PromptSortField;
+  direction: 'asc' | 'desc';
+};
+
+/**
+ * Keyset pagination cursor: the last row's sort value and id
+ */
+export type PromptCursor = {
+  sort: string; // formatted sort the cursor was issued for, e.g. "-name"
+  value: string | number;
+  id: string;
+};
+
+/**
+ * Parsed GET /prompts query options
+ */
+export type ListPromptsOptions = {
+  includeVersions: boolean;
+  search?: string;
+  updatedSince?: number; // unix timestamp ms
+  sort: PromptSort;
+  limit?: number; // undefined = unpaginated (legacy array response)
+  cursor?: PromptCursor;
+};
+
+/**
+ * Paginated API response for GET /prompts?limit=...
+ */
+export type PromptListResponse = {
+  data: PromptResponse[];
+  pagination: {
+    limit: number;
+    nextCursor: string | null;
+  };
+};
+
 /**
  * Error response
  */
 export type ErrorResponse = {
   error: string;
   code: string;
+  requestId?: string; // added to every error response
+};
+
+/**
+ * Variable declaration from a prompt's config.schema
+ */
+export type SchemaField = {
+  name: string;
+  type?: string;
+  required?: boolean;
+};
+
+/**
+ * Variables supplied for rendering, keyed by placeholder name
+ */
+export type Variables = Record<string, unknown>;
+
+/**
+ * Request body for POST /prompts/:promptId/render
+ */
+export type RenderRequest = {
+  variables?: Variables;
+};
+
+/**
+ * Single variable validation failure
+ */
+export type VariableError = {
+  name: string;
+  code: 'MISSING_VARIABLE' | 'UNKNOWN_VARIABLE' | 'INVALID_VARIABLE_TYPE';
+  message: string;
+};
+
+/**
+ * Render validation error response (code is the first error's code)
+ */
+export type VariableErrorResponse = ErrorResponse & {
+  errors: VariableError[];
+};
+
+/**
+ * Single prompt selector in a batch request
+ */
+export type BatchRequestItem = {
+  promptId: string;
+  version?: string;
+  label?: string;
+};
+
+/**
+ * Request body for POST /prompts/batch
+ */
+export type BatchRequest = {
+  prompts: BatchRequestItem[];
+};
+
+/**
+ * Per-item batch result, in request order
+ */
+export type BatchResult =
+  | { promptId: string; status: 200; prompt: PromptResponse }
+  | { promptId: string; status: number; error: ErrorResponse };
+
+/**
+ * Response for POST /prompts/batch
+ */
+export type BatchResponse = {
+  results: BatchResult[];
 };
 
 /**
@@ -152,6 +438,73 @@ export type CachedUsage = {
   period: string;
 };
 
+/**
+ * Date range for the daily usage breakdown (inclusive, YYYY-MM-DD)
+ */
+export type UsageRange = {
+  from: string;
+  to: string;
+};
+
+/**
+ * One day of usage
+ */
+export type DailyUsage = {
+  date: string; // YYYY-MM-DD (UTC)
+  count: number;
+};
+
+/**
+ * GET /usage response
+ */
+export type UsageReport = {
+  plan: Plan;
+  period: string; // YYYY-MM (UTC)
+  used: number;
+  limit: number | null;
+  remaining: number | null;
+  resetAt: string;
+  daily: UsageRange & {
+    total: number;
+    days: DailyUsage[];
+  };
+};
+
+/**
+ * Who and what a metered call is attributed to.
+ * Listings aren't tied to one prompt, so promptId and version are null.
+ */
+export type UsageAttribution = {
+  apiKeyId: string;
+  promptId: string | null;
+  version: string | null;
+};
+
+/**
+ * Dimension for GET /usage/breakdown
+ */
+export type UsageGroupBy = 'apikey' | 'prompt' | 'version';
+
+/**
+ * One row of a usage breakdown. Which ids are set depends on the grouping.
+ */
+export type UsageBreakdownItem = {
+  apiKeyId?: string;
+  promptId?: string | null;
+  promptName?: string;
+  version?: string | null;
+  count: number;
+};
+
+/**
+ * GET /usage/breakdown response
+ */
+export type UsageBreakdown = {
+  period: string; // YYYY-MM (UTC)
+  groupBy: UsageGroupBy;
+  items: UsageBreakdownItem[];
+};
+
 /**
  * Subscription record from D1
  */
@@ -172,3 +525,311 @@ export type RateLimitResponse = ErrorResponse & {
   };
   upgradeUrl: string;
 };
+
+/**
+ * Cache invalidation event sent by the CMS to POST /internal/invalidate
+ */
+export type InvalidationEvent =
+  | { type: 'prompt.published'; promptId: string }
+  | { type: 'prompt.updated'; promptId: string }
+  | { type: 'prompt.deleted'; promptId: string }
+  | { type: 'label.moved'; promptId: string; label: string }
+  | { type: 'apikey.created'; keyHash: string }
+  | { type: 'apikey.updated'; keyHash: string }
+  | { type: 'apikey.revoked'; keyHash: string }
+  | { type: 'plan.changed'; organizationId: string }
+  | { type: 'organization.updated'; organizationId: string };
+
+/**
+ * Invalidation webhook response
+ */
+export type InvalidationResponse = {
+  purged: string[];
+};
+
+/**
+ * Body of POST /internal/revocations (signed like the invalidation webhook)
+ */
+export type RevocationRequest = {
+  keyHashes: string[];
+  reason?: string;
+};
+
+/**
+ * Revocation response: the hashes now on the deny-list
+ */
+export type RevocationResponse = {
+  revoked: string[];
+};
+
+/**
+ * Deny-list entry for a revoked API key hash
+ */
+export type RevocationEntry = {
+  revokedAt: number; // unix ms
+  reason?: string;
+};
+
+/**
+ * Pluggable deny-list of revoked API key hashes (e.g. Durable Objects)
+ */
+export type RevocationStore = {
+  isRevoked(keyHash: string): Promise<boolean>;
+  revoke(keyHashes: string[], entry: RevocationEntry): Promise<void>;
+};
+
+/**
+ * Per-second and per-minute request limits
+ */
+export type BurstWindowLimits = {
+  perSecond: number;
+  perMinute: number;
+};
+
+/**
+ * Burst limits for a plan, per API key and per organization
+ */
+export type BurstLimits = {
+  key: BurstWindowLimits;
+  organization: BurstWindowLimits;
+};
+
+/**
+ * A single sliding-window limit to enforce
+ */
+export type RateLimitRule = {
+  key: string; // counter key, e.g. "key:{id}:s"
+  scope: 'key' | 'organization';
+  limit: number;
+  windowMs: number;
+};
+
+/**
+ * Fixed-window counts backing a sliding-window estimate
+ */
+export type RateLimitWindow = {
+  start: number; // window start, unix ms
+  windowMs: number;
+  current: number;
+  previous: number;
+};
+
+/**
+ * Outcome of a burst limit check (for the blocking or tightest rule)
+ */
+export type RateLimitDecision = {
+  allowed: boolean;
+  scope: 'key' | 'organization';
+  limit: number;
+  windowMs: number;
+  remaining: number;
+  resetAt: number; // unix ms when the current window ends
+  retryAfterMs: number;
+};
+
+/**
+ * Pluggable counter store for burst limits. `scope` routes all of an
+ * organization's counters to the same place (e.g. one Durable Object).
+ */
+export type RateLimitStore = {
+  consume(scope: string, rules: RateLimitRule[]): Promise<RateLimitDecision>;
+};
+
+/**
+ * Public API versions, addressed as /v1/... or with Accept-Version
+ */
+export type ApiVersion = 'v1';
+
+/**
+ * Lifecycle of an API version (ISO 8601 dates)
+ */
+export type ApiVersionInfo = {
+  deprecatedAt?: string; // sent as the Deprecation header once set
+  sunsetAt?: string; // sent as the Sunset header once set
+};
+
+/**
+ * Methods routes can be declared with. HEAD is served by GET routes.
+ */
+export type HttpMethod = 'GET' | 'POST';
+
+/**
+ * Path parameters inferred from a route pattern,
+ * e.g. "/prompts/:promptId/render" gives { promptId: string }
+ */
+export type RouteParams<Path extends string> = string extends Path
+  ? Record<string, string>
+  : Path extends `${string}:${infer Param}/${infer Rest}`
+    ? { [K in Param]: string } & RouteParams<`/${Rest}`>
+    : Path extends `${string}:${infer Param}`
+      ? { [K in Param]: string }
+      : Record<never, never>;
+
+/**
+ * Where a traced step ran: in-memory cache, KV, D1 or a Durable Object
+ */
+export type SpanLayer = 'l1' | 'l2' | 'd1' | 'do';
+
+/**
+ * One timed step of a request
+ */
+export type Span = {
+  layer: SpanLayer;
+  name: string; // cache key namespace or D1 statement - no key material
+  outcome?: 'hit' | 'stale' | 'miss' | 'put'; // cache spans only
+  durationMs: number;
+};
+
+/**
+ * Per-request tracing state, threaded from handleRequest through auth,
+ * usage checks and prompt fetches
+ */
+export type RequestContext = {
+  requestId: string; // propagated X-Request-Id, or generated
+  startedAt: number; // performance.now() at arrival
+  spans: Span[];
+  route?: string; // matched route path, e.g. /prompts/:promptId
+  organizationId?: string;
+  keyId?: string;
+  plan?: Plan;
+  errorCode?: string; // code of an error response
+  // Set during authentication when an AccessPolicy restricts origins: the origin
+  // to echo in Access-Control-Allow-Origin, or null to send none
+  corsOrigin?: string | null;
+};
+
+/**
+ * Context passed to every route handler
+ */
+export type RouteContext<Params> = {
+  request: Request;
+  env: Env;
+  ctx: ExecutionContext;
+  url: URL;
+  params: Params;
+  apiVersion: ApiVersion;
+  requestContext: RequestContext;
+};
+
+/**
+ * Context for API key routes, after auth, quota and burst checks passed
+ */
+export type ApiKeyRouteContext<Params> = RouteContext<Params> & {
+  key: Extract<ApiKeyResult, { valid: true }>;
+  usage: UsageStatus;
+  limitHeaders: Record<string, string>; // monthly + burst X-RateLimit-*
+  meter: (attributions: UsageAttribution[]) => void; // record calls served
+};
+
+/**
+ * JSON Schema (2020-12, as used by OpenAPI 3.1)
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * A documented query parameter
+ */
+export type QueryParamDoc = {
+  name: string;
+  description: string;
+  schema: JsonSchema;
+};
+
+/**
+ * OpenAPI description of a route. Schemas are named components in
+ * openapi.ts; error codes are mapped to statuses by the handler's tables.
+ */
+export type RouteDocs = {
+  operationId: string;
+  summary: string;
+  query?: QueryParamDoc[];
+  body?: string; // request body schema
+  response: string; // 200 response schema
+  contentType?: string; // 200 media type, defaults to application/json
+  errors?: string[]; // route-specific codes (auth and rate limits are implied)
+  conditional?: boolean; // sends ETag/Cache-Control and honours If-None-Match
+};
+
+/**
+ * A route and its policy.
+ * - `public` routes do their own authentication (e.g. signed webhooks)
+ * - `apiKey` routes require a bearer key with `permission`. Metered routes
+ *   are blocked once the monthly quota is spent, and whatever the handler
+ *   passes to `meter` is counted when it returns a 2xx to a non-HEAD request.
+ *   Routes marked `clientTokens` also take client tokens in place of a key.
+ * A route is served on every API version unless `versions` narrows it, so a
+ * new response shape ships as a v2 route next to the v1 one.
+ */
+export type Route<Path extends string = string> = {
+  method: HttpMethod;
+  path: Path; // without the /v1 prefix
+  versions?: ApiVersion[];
+  docs: RouteDocs;
+} & (
+  | {
+      auth: 'public';
+      handler: (context: RouteContext<RouteParams<Path>>) => Promise<Response>;
+    }
+  | {
+      auth: 'apiKey';
+      permission: string;
+      metered: boolean;
+      clientTokens?: boolean; // also accepts client tokens from POST /tokens
+      handler: (
+        context: ApiKeyRouteContext<RouteParams<Path>>,
+      ) => Promise<Response>;
+    }
+);
+
+/**
+ * Result of matching a request against the route table
+ */
+export type RouteMatch =
+  | { type: 'found'; route: Route; params: Record<string, string> }
+  | { type: 'method_not_allowed'; allow: string[] }
+  | { type: 'not_found' };
+
+/**
+ * A metric and its label names, in the order values are passed to a sink
+ */
+export type MetricDefinition = {
+  name: string;
+  type: 'counter' | 'histogram';
+  help: string;
+  labels: readonly string[];
+};
+
+/**
+ * Destination for metric observations. A counter observation is the amount
+ * to add; a histogram observation is one sample.
+ */
+export type MetricsSink = {
+  record: (
+    metric: MetricDefinition,
+    labelValues: readonly string[],
+    value: number,
+  ) => void;
+};
+
+/**
+ * Limits for the in-memory (L1) cache
+ */
+export type MemoryCacheOptions = {
+  maxEntries: number;
+  maxBytes: number; // approximate, from the JSON size of each value
+  sweepIntervalMs: number; // minimum time between expired-entry sweeps
+};
+
+/**
+ * In-memory cache counters since the isolate started (or the last clear)
+ */
+export type MemoryCacheStats = {
+  hits: number;
+  misses: number;
+  evictions: number; // removed to stay within maxEntries/maxBytes
+  expirations: number; // removed after their TTL
+  entries: number;
+  bytes: number;
+  maxEntries: number;
+  maxBytes: number;
+};
@@ -1,9 +1,21 @@
+import { singleFlight } from './cache.ts';
 import { memoryCache } from './memory-cache.ts';
+import { scopeCondition } from './permissions.ts';
+import { recordSpan, timeSpan } from './request-context.ts';
 import type {
   CachedUsage,
+  DailyUsage,
   Env,
   PlanInfo,
+  RequestContext,
+  ResourceScope,
   SubscriptionRecord,
+  UsageAttribution,
+  UsageBreakdown,
+  UsageBreakdownItem,
+  UsageGroupBy,
+  UsageRange,
+  UsageReport,
   UsageStatus,
 } from './types.ts';
 
@@ -11,6 +23,15 @@ const FREE_LIMIT = 5000;
 const PRO_LIMIT = 50000;
 const USAGE_CACHE_TTL = 60; // seconds - shorter for better accuracy
 const PLAN_CACHE_TTL = 300; // seconds - plan changes are rare
+const MAX_USAGE_RANGE_DAYS = 93; // about a quarter of daily rows per request
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const PERIOD_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+const GROUP_BY_VALUES: readonly UsageGroupBy[] = [
+  'apikey',
+  'prompt',
+  'version',
+];
 
 /**
  * Get the current period string (YYYY-MM) in UTC
@@ -59,41 +80,55 @@ const getNextMonthResetUnix = (): number => {
  */
 const getPlanInfo = async (
   env: Env,
+  requestContext: RequestContext,
   organizationId: string,
 ): Promise<PlanInfo> => {
   const cacheKey = `plan:${organizationId}`;
 
   // Check L1 cache
+  const l1Start = performance.now();
   const cached = memoryCache.get<PlanInfo>(cacheKey);
+  recordSpan(
+    requestContext,
+    { layer: 'l1', name: 'plan', outcome: cached !== null ? 'hit' : 'miss' },
+    l1Start,
+  );
   if (cached !== null) {
     return cached;
   }
 
-  // Query D1 for subscription
-  const subscription = await env.promptly
-    .prepare(
-      'SELECT plan, status FROM subscription WHERE organization_id = ? LIMIT 1',
-    )
-    .bind(organizationId)
-    .first<SubscriptionRecord>();
+  // Concurrent misses for one organization share the D1 read
+  return singleFlight(cacheKey, async () => {
+    const subscription = await timeSpan(
+      requestContext,
+      { layer: 'd1', name: 'plan' },
+      () =>
+        env.promptly
+          .prepare(
+            'SELECT plan, status FROM subscription WHERE organization_id = ? LIMIT 1',
+          )
+          .bind(organizationId)
+          .first<SubscriptionRecord>(),
+    );
 
-  let planInfo: PlanInfo = { plan: 'free', limit: FREE_LIMIT };
+    let planInfo: PlanInfo = { plan: 'free', limit: FREE_LIMIT };
 
-  if (
-    subscription &&
-    (subscription.status === 'active' || subscription.status === 'trialing')
-  ) {
-    if (subscription.plan === 'enterprise') {
-      planInfo = { plan: 'enterprise', limit: null };
-    } else if (subscription.plan === 'pro') {
-      planInfo = { plan: 'pro', limit: PRO_LIMIT };
+    if (
+      subscription &&
+      (subscription.status === 'active' || subscription.status === 'trialing')
+    ) {
+      if (subscription.plan === 'enterprise') {
+        planInfo = { plan: 'enterprise', limit: null };
+      } else if (subscription.plan === 'pro') {
+        planInfo = { plan: 'pro', limit: PRO_LIMIT };
+      }
     }
-  }
 
-  // Cache in L1 only
-  memoryCache.set(cacheKey, planInfo, PLAN_CACHE_TTL);
+    // Cache in L1 only
+    memoryCache.set(cacheKey, planInfo, PLAN_CACHE_TTL);
 
-  return planInfo;
+    return planInfo;
+  });
 };
 
 /**
@@ -127,27 +162,36 @@ const buildUsageStatus = (count: number, planInfo: PlanInfo): UsageStatus => {
  */
 export const checkUsageLimit = async (
   env: Env,
+  requestContext: RequestContext,
   organizationId: string,
 ): Promise<UsageStatus> => {
   const period = getCurrentPeriod();
   const cacheKey = `usage:${organizationId}:${period}`;
 
   // Check L1 cache for usage count
+  const l1Start = performance.now();
   const cached = memoryCache.get<CachedUsage>(cacheKey);
+  recordSpan(
+    requestContext,
+    { layer: 'l1', name: 'usage', outcome: cached ? 'hit' : 'miss' },
+    l1Start,
+  );
   if (cached) {
-    const planInfo = await getPlanInfo(env, organizationId);
+    const planInfo = await getPlanInfo(env, requestContext, organizationId);
     return buildUsageStatus(cached.count, planInfo);
   }
 
   // Cache miss - query D1 for count and plan info in parallel
   const [usageResult, planInfo] = await Promise.all([
-    env.promptly
-      .prepare(
-        'SELECT count FROM api_usage WHERE organization_id = ? AND period = ?',
-      )
-      .bind(organizationId, period)
-      .first<{ count: number }>(),
-    getPlanInfo(env, organizationId),
+    timeSpan(requestContext, { layer: 'd1', name: 'usage' }, () =>
+      env.promptly
+        .prepare(
+          'SELECT count FROM api_usage WHERE organization_id = ? AND period = ?',
+        )
+        .bind(organizationId, period)
+        .first<{ count: number }>(),
+    ),
+    getPlanInfo(env, requestContext, organizationId),
   ]);
 
   const count = usageResult?.count ?? 0;
@@ -158,31 +202,301 @@ export const checkUsageLimit = async (
   return buildUsageStatus(count, planInfo);
 };
 
+/**
+ * Parse a YYYY-MM-DD date as UTC midnight, rejecting impossible dates
+ */
+const parseDate = (value: string): number | null => {
+  if (!DATE_PATTERN.test(value)) {
+    return null;
+  }
+  const time = Date.parse(`${value}T00:00:00Z`);
+  // Date.parse rolls 2026-02-30 over to March; reject anything that moved
+  if (
+    Number.isNaN(time) ||
+    new Date(time).toISOString().slice(0, 10) !== value
+  ) {
+    return null;
+  }
+  return time;
+};
+
+/**
+ * Parse GET /usage query parameters.
+ * `from` defaults to the start of the current month and `to` to today.
+ */
+export const parseUsageRange = (
+  params: URLSearchParams,
+): UsageRange | { error: string; code: string } => {
+  const to = params.get('to') ?? getCurrentDate();
+  const from = params.get('from') ?? `${to.slice(0, 7)}-01`;
+
+  const fromTime = parseDate(from);
+  const toTime = parseDate(to);
+  if (fromTime === null || toTime === null) {
+    return {
+      error: 'Invalid from or to. Use a YYYY-MM-DD date',
+      code: 'BAD_REQUEST',
+    };
+  }
+
+  if (fromTime > toTime) {
+    return { error: 'from must not be after to', code: 'BAD_REQUEST' };
+  }
+
+  if ((toTime - fromTime) / DAY_MS + 1 > MAX_USAGE_RANGE_DAYS) {
+    return {
+      error: `Date range must be at most ${MAX_USAGE_RANGE_DAYS} days`,
+      code: 'BAD_REQUEST',
+    };
+  }
+
+  return { from, to };
+};
+
+/**
+ * Build the usage report for GET /usage: the monthly figures from the usage
+ * check plus the daily rows in range, with days without usage filled with 0
+ */
+export const getUsageReport = async (
+  env: Env,
+  organizationId: string,
+  usageStatus: UsageStatus,
+  range: UsageRange,
+): Promise<UsageReport> => {
+  // Daily rows share the table with monthly ones; only YYYY-MM-DD sort in range
+  const { results } = await env.promptly
+    .prepare(
+      'SELECT period, count FROM api_usage WHERE organization_id = ? AND period BETWEEN ? AND ? AND length(period) = 10',
+    )
+    .bind(organizationId, range.from, range.to)
+    .all<{ period: string; count: number }>();
+
+  const counts = new Map(results.map((row) => [row.period, row.count]));
+
+  const days: DailyUsage[] = [];
+  const end = Date.parse(`${range.to}T00:00:00Z`);
+  for (
+    let time = Date.parse(`${range.from}T00:00:00Z`);
+    time <= end;
+    time += DAY_MS
+  ) {
+    const date = new Date(time).toISOString().slice(0, 10);
+    days.push({ date, count: counts.get(date) ?? 0 });
+  }
+
+  return {
+    plan: usageStatus.plan,
+    period: getCurrentPeriod(),
+    used: usageStatus.used,
+    limit: usageStatus.limit,
+    remaining: usageStatus.remaining,
+    resetAt: usageStatus.resetAt,
+    daily: {
+      from: range.from,
+      to: range.to,
+      total: days.reduce((sum, day) => sum + day.count, 0),
+      days,
+    },
+  };
+};
+
+/**
+ * Parse GET /usage/breakdown query parameters.
+ * `period` (YYYY-MM) defaults to the current month, `group_by` to prompt.
+ */
+export const parseUsageBreakdownQuery = (
+  params: URLSearchParams,
+):
+  | { period: string; groupBy: UsageGroupBy }
+  | { error: string; code: string } => {
+  const period = params.get('period') ?? getCurrentPeriod();
+  if (!PERIOD_PATTERN.test(period)) {
+    return { error: 'Invalid period. Use YYYY-MM', code: 'BAD_REQUEST' };
+  }
+
+  const groupBy = (params.get('group_by') ?? 'prompt') as UsageGroupBy;
+  if (!GROUP_BY_VALUES.includes(groupBy)) {
+    return {
+      error: `Invalid group_by. Use one of: ${GROUP_BY_VALUES.join(', ')}`,
+      code: 'BAD_REQUEST',
+    };
+  }
+
+  return { period, groupBy };
+};
+
+/**
+ * Break a month's usage down by API key, prompt or prompt version.
+ * Grouping by prompt lists every live prompt, including unused ones with a
+ * count of 0, so stale prompts show up. Listing calls aren't tied to a prompt
+ * and are reported with a null promptId. A scoped key only sees usage of
+ * the prompts it covers, in every grouping, and no listing calls.
+ */
+export const getUsageBreakdown = async (
+  env: Env,
+  organizationId: string,
+  scope: ResourceScope,
+  period: string,
+  groupBy: UsageGroupBy,
+): Promise<UsageBreakdown> => {
+  const scopedUsage = scopeCondition(scope, 'prompt_id');
+  const scopedPrompts = scopeCondition(scope, 'prompt.id');
+  const usageFilter = scopedUsage
+    ? `AND prompt_id <> '' AND ${scopedUsage.sql}`
+    : '';
+  const usageBindings = [
+    organizationId,
+    period,
+    ...(scopedUsage ? [scopedUsage.binding] : []),
+  ];
+  let items: UsageBreakdownItem[];
+
+  if (groupBy === 'apikey') {
+    const { results } = await env.promptly
+      .prepare(
+        `SELECT apikey_id, SUM(count) AS count FROM api_usage_breakdown
+         WHERE organization_id = ? AND period = ? ${usageFilter}
+         GROUP BY apikey_id`,
+      )
+      .bind(...usageBindings)
+      .all<{ apikey_id: string; count: number }>();
+
+    items = results.map((row) => ({
+      apiKeyId: row.apikey_id,
+      count: row.count,
+    }));
+  } else if (groupBy === 'version') {
+    const { results } = await env.promptly
+      .prepare(
+        `SELECT prompt_id, version, SUM(count) AS count FROM api_usage_breakdown
+         WHERE organization_id = ? AND period = ? ${usageFilter}
+         GROUP BY prompt_id, version`,
+      )
+      .bind(...usageBindings)
+      .all<{ prompt_id: string; version: string; count: number }>();
+
+    items = results.map((row) => ({
+      promptId: row.prompt_id || null,
+      version: row.version || null,
+      count: row.count,
+    }));
+  } else {
+    const [usage, prompts] = await Promise.all([
+      env.promptly
+        .prepare(
+          `SELECT prompt_id, SUM(count) AS count FROM api_usage_breakdown
+           WHERE organization_id = ? AND period = ? ${usageFilter}
+           GROUP BY prompt_id`,
+        )
+        .bind(...usageBindings)
+        .all<{ prompt_id: string; count: number }>(),
+      env.promptly
+        .prepare(
+          `SELECT id, name FROM prompt
+           WHERE organization_id = ? AND deleted_at IS NULL
+           ${scopedPrompts ? `AND ${scopedPrompts.sql}` : ''}`,
+        )
+        .bind(organizationId, ...(scopedPrompts ? [scopedPrompts.binding] : []))
+        .all<{ id: string; name: string }>(),
+    ]);
+
+    const counts = new Map(
+      usage.results.map((row) => [row.prompt_id, row.count]),
+    );
+    items = prompts.results.map((prompt) => ({
+      promptId: prompt.id,
+      promptName: prompt.name,
+      count: counts.get(prompt.id) ?? 0,
+    }));
+
+    // Listings, plus prompts deleted since they were served
+    const live = new Set(prompts.results.map((prompt) => prompt.id));
+    for (const [promptId, count] of counts) {
+      if (!live.has(promptId)) {
+        items.push({ promptId: promptId || null, count });
+      }
+    }
+  }
+
+  // Busiest first
+  items.sort((a, b) => b.count - a.count);
+
+  return { period, groupBy, items };
+};
+
 /**
  * Increment usage counter for an organization (fire-and-forget via ctx.waitUntil)
+ *
+ * Metering rules:
+ * - Only requests that return a response body count. Conditional requests
+ *   answered with 304 Not Modified are free, so that SDKs polling with
+ *   If-None-Match are rewarded rather than penalised.
+ * - HEAD requests are free (no body is sent).
+ * - Batch requests count once per prompt served; failed items are free.
+ * - Auth failures, errors and 429s are never counted.
+ *
+ * Each call is also attributed to the API key and prompt version served
+ * (see getUsageBreakdown). Totals and attribution share one D1 batch, so
+ * api_usage_breakdown must be migrated before this worker is deployed.
  */
 export const incrementUsage = async (
   env: Env,
+  requestContext: RequestContext,
   organizationId: string,
+  attributions: UsageAttribution[],
 ): Promise<void> => {
+  const count = attributions.length;
   try {
     const period = getCurrentPeriod();
     const dailyPeriod = getCurrentDate();
     const now = Date.now();
 
     const UPSERT_USAGE_SQL = `INSERT INTO api_usage (organization_id, period, count, created_at, updated_at)
-      VALUES (?, ?, 1, ?, ?)
+      VALUES (?, ?, ?, ?, ?)
       ON CONFLICT(organization_id, period)
-      DO UPDATE SET count = count + 1, updated_at = ?`;
+      DO UPDATE SET count = count + excluded.count, updated_at = ?`;
+
+    // Monthly only; null ids are stored as '' so they take part in the key
+    const UPSERT_BREAKDOWN_SQL = `INSERT INTO api_usage_breakdown (organization_id, period, apikey_id, prompt_id, version, count, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(organization_id, period, apikey_id, prompt_id, version)
+      DO UPDATE SET count = count + excluded.count, updated_at = ?`;
+
+    // Collapse repeats (e.g. one prompt twice in a batch) into one row
+    const breakdown = new Map<string, UsageAttribution & { count: number }>();
+    for (const attribution of attributions) {
+      const key = JSON.stringify([
+        attribution.apiKeyId,
+        attribution.promptId,
+        attribution.version,
+      ]);
+      const row = breakdown.get(key);
+      breakdown.set(key, { ...attribution, count: (row?.count ?? 0) + 1 });
+    }
 
-    // Batch both upserts into a single D1 round trip
+    // Batch all upserts into a single D1 round trip
     await env.promptly.batch([
       env.promptly
         .prepare(UPSERT_USAGE_SQL)
-        .bind(organizationId, period, now, now, now),
+        .bind(organizationId, period, count, now, now, now),
       env.promptly
         .prepare(UPSERT_USAGE_SQL)
-        .bind(organizationId, dailyPeriod, now, now, now),
+        .bind(organizationId, dailyPeriod, count, now, now, now),
+      ...[...breakdown.values()].map((row) =>
+        env.promptly
+          .prepare(UPSERT_BREAKDOWN_SQL)
+          .bind(
+            organizationId,
+            period,
+            row.apiKeyId,
+            row.promptId ?? '',
+            row.version ?? '',
+            row.count,
+            now,
+            now,
+            now,
+          ),
+      ),
     ]);
 
     // Optimistically update L1 cache (monthly only - daily is write-only)
@@ -191,7 +505,7 @@ export const incrementUsage = async (
     if (cached) {
       memoryCache.set(
         cacheKey,
-        { ...cached, count: cached.count + 1 },
+        { ...cached, count: cached.count + count },
         USAGE_CACHE_TTL,
       );
     }
@@ -199,9 +513,11 @@ export const incrementUsage = async (
     console.log(
       JSON.stringify({
         event: 'usage_increment',
+        requestId: requestContext.requestId,
         organizationId,
         period,
         dailyPeriod,
+        count,
       }),
     );
   } catch (error) {
@@ -209,6 +525,7 @@ export const incrementUsage = async (
     console.error(
       JSON.stringify({
         event: 'usage_increment_error',
+        requestId: requestContext.requestId,
         organizationId,
         error: error instanceof Error ? error.message : String(error),
       }),
@@ -1,12 +1,34 @@
-import { getFromCache, L2_TTL, setInCache } from './cache.ts';
+import {
+  enforceAccess,
+  getOrganizationPolicy,
+  parseAccessPolicy,
+} from './access-policy.ts';
+import {
+  deleteFromCache,
+  getFromCacheOrMissing,
+  L2_TTL,
+  rememberMissing,
+  setInCache,
+  singleFlight,
+} from './cache.ts';
+import { resourceScope } from './permissions.ts';
+import { timeSpan } from './request-context.ts';
+import { isApiKeyRevoked } from './revocation.ts';
 import type {
   ApiKeyResult,
   ApiKeyWithOrgRecord,
   CachedApiKey,
+  CacheWriteOptions,
+  ClientInfo,
   Env,
   PermissionsObject,
+  RequestContext,
 } from './types.ts';
 
+// A stale key is served for at most this long past its TTL while it
+// refreshes, so a disabled key stops working within L2_TTL + this
+const KEY_CACHE_OPTIONS: CacheWriteOptions = { kvTtl: L2_TTL, staleTtl: 600 };
+
 /**
  * Hash an API key using SHA-256 and encode as base64url (no padding)
  * This matches Better Auth's API key storage format
@@ -22,74 +44,125 @@ const hashApiKey = async (apiKey: string): Promise<string> => {
 };
 
 /**
- * Check if permissions object grants a specific permission
- * Permission format: "resource:action" (e.g., "prompt:read")
+ * Read a key and its organization from D1 (null if it doesn't exist)
  */
-const hasPermission = (
-  permissions: PermissionsObject,
-  requiredPermission: string,
-): boolean => {
-  const [resource, action] = requiredPermission.split(':');
-  if (!resource || !action) {
-    return false;
-  }
+const queryApiKey = async (
+  env: Env,
+  requestContext: RequestContext,
+  hashedKey: string,
+): Promise<CachedApiKey | null> => {
+  // Join apikey with member to get organization_id
+  const result = await timeSpan(
+    requestContext,
+    { layer: 'd1', name: 'apikey' },
+    () =>
+      env.promptly
+        .prepare(
+          `SELECT a.id, a.key, a.user_id, a.permissions, a.enabled, a.expires_at, a.metadata, m.organization_id
+				FROM apikey a
+				INNER JOIN member m ON a.user_id = m.user_id
+				WHERE a.key = ?
+				LIMIT 1`,
+        )
+        .bind(hashedKey)
+        .first<ApiKeyWithOrgRecord>(),
+  );
 
-  const resourcePermissions = permissions[resource];
-  if (!resourcePermissions) {
-    return false;
+  if (!result) {
+    return null;
   }
 
-  return resourcePermissions.includes(action);
+  // Parse permissions - Better Auth stores as {"resource": ["action1", "action2"]}
+  const permissionsObj: PermissionsObject = result.permissions
+    ? (JSON.parse(result.permissions) as PermissionsObject)
+    : {};
+
+  const policy = parseAccessPolicy(result.metadata);
+
+  return {
+    keyId: result.id,
+    organizationId: result.organization_id,
+    permissions: permissionsObj,
+    enabled: result.enabled === 1,
+    expiresAt: result.expires_at,
+    ...(policy ? { policy } : {}),
+  };
 };
 
 /**
- * Verify an API key and check permissions
+ * Check that the key with this hash is usable: not deny-listed, known, enabled
+ * and unexpired, and the client passes both the key's and its
+ * organization's access policy. A cached key past its TTL is used once more
+ * and refreshed from D1 after the response. The deny-list is checked
+ * alongside the cache, so a revoked key is rejected even while an isolate
+ * still holds it. Client tokens are checked against their issuing key here.
  */
-export const verifyApiKey = async (
+export const verifyKeyHash = async (
   env: Env,
-  apiKey: string,
-  requiredPermission: string,
-): Promise<ApiKeyResult> => {
-  const hashedKey = await hashApiKey(apiKey);
+  ctx: ExecutionContext,
+  requestContext: RequestContext,
+  hashedKey: string,
+  client: ClientInfo,
+): Promise<
+  { valid: true; key: CachedApiKey } | Extract<ApiKeyResult, { valid: false }>
+> => {
   const cacheKey = `apikey:${hashedKey}`;
+  const load = () => queryApiKey(env, requestContext, hashedKey);
+
+  // Check the deny-list and the cache together
+  const [revoked, cached] = await Promise.all([
+    isApiKeyRevoked(env, requestContext, hashedKey),
+    getFromCacheOrMissing<CachedApiKey>(
+      env.PROMPTS_CACHE,
+      requestContext,
+      cacheKey,
+      {
+        ctx,
+        refresh: async () => {
+          const fresh = await load();
+          await (fresh
+            ? setInCache(
+                env.PROMPTS_CACHE,
+                requestContext,
+                cacheKey,
+                fresh,
+                KEY_CACHE_OPTIONS,
+              )
+            : deleteFromCache(env.PROMPTS_CACHE, [cacheKey]));
+        },
+      },
+    ),
+  ]);
+
+  if (revoked) {
+    return { valid: false, code: 'REVOKED' };
+  }
 
-  // Check cache first
-  let cachedData = await getFromCache<CachedApiKey>(
-    env.PROMPTS_CACHE,
-    cacheKey,
-  );
+  if (cached.knownMissing) {
+    return { valid: false, code: 'INVALID_KEY' };
+  }
 
+  let cachedData = cached.value;
   if (!cachedData) {
-    // Query D1 database - join apikey with member to get organization_id
-    const result = await env.promptly
-      .prepare(
-        `SELECT a.id, a.key, a.user_id, a.permissions, a.enabled, a.expires_at, m.organization_id
-				FROM apikey a
-				INNER JOIN member m ON a.user_id = m.user_id
-				WHERE a.key = ?
-				LIMIT 1`,
-      )
-      .bind(hashedKey)
-      .first<ApiKeyWithOrgRecord>();
-
-    if (!result) {
+    // Concurrent misses for one key share the D1 read and cache write.
+    // Unknown keys are remembered briefly so bad keys don't each cost a
+    // D1 read; creating a key purges its entry via apikey.created.
+    cachedData = await singleFlight(cacheKey, async () => {
+      const data = await load();
+      await (data
+        ? setInCache(
+            env.PROMPTS_CACHE,
+            requestContext,
+            cacheKey,
+            data,
+            KEY_CACHE_OPTIONS,
+          )
+        : rememberMissing(env.PROMPTS_CACHE, requestContext, cacheKey));
+      return data;
+    });
+    if (!cachedData) {
       return { valid: false, code: 'INVALID_KEY' };
     }
-
-    // Parse permissions - Better Auth stores as {"resource": ["action1", "action2"]}
-    const permissionsObj: PermissionsObject = result.permissions
-      ? (JSON.parse(result.permissions) as PermissionsObject)
-      : {};
-
-    // Cache the key data
-    cachedData = {
-      organizationId: result.organization_id,
-      permissions: permissionsObj,
-      enabled: result.enabled === 1,
-      expiresAt: result.expires_at,
-    };
-
-    await setInCache(env.PROMPTS_CACHE, cacheKey, cachedData, L2_TTL);
   }
 
   // Validate the key
@@ -101,13 +174,47 @@ export const verifyApiKey = async (
     return { valid: false, code: 'EXPIRED' };
   }
 
-  if (!hasPermission(cachedData.permissions, requiredPermission)) {
+  const policies = [
+    cachedData.policy,
+    await getOrganizationPolicy(env, requestContext, cachedData.organizationId),
+  ];
+  const denied = enforceAccess(requestContext, policies, client);
+  if (denied) {
+    return { valid: false, code: denied };
+  }
+
+  return { valid: true, key: cachedData };
+};
+
+/**
+ * Verify an API key and check permissions (see verifyKeyHash)
+ */
+export const verifyApiKey = async (
+  env: Env,
+  ctx: ExecutionContext,
+  requestContext: RequestContext,
+  apiKey: string,
+  requiredPermission: string,
+  client: ClientInfo,
+): Promise<ApiKeyResult> => {
+  const keyHash = await hashApiKey(apiKey);
+  const result = await verifyKeyHash(env, ctx, requestContext, keyHash, client);
+  if (!result.valid) {
+    return result;
+  }
+
+  const { key } = result;
+  const scope = resourceScope(key.permissions, requiredPermission);
+  if (!scope) {
     return { valid: false, code: 'FORBIDDEN' };
   }
 
   return {
     valid: true,
-    organizationId: cachedData.organizationId,
-    permissions: cachedData.permissions,
+    keyId: key.keyId,
+    keyHash,
+    organizationId: key.organizationId,
+    permissions: key.permissions,
+    scope,
   };
 };
@@ -0,0 +1,77 @@
+/**
+ * Origin and IP allowlist tests
+ *
+ * Run with: bun test
+ */
+import { expect, test } from 'bun:test';
+import {
+  checkAccess,
+  ipInCidr,
+  parseAccessPolicy,
+  parseIp,
+} from '../src/access-policy.ts';
+
+// Addresses
+
+test('parses IPv4, IPv6 and IPv4-mapped IPv6', () => {
+  expect(parseIp('192.0.2.1')).toEqual([192, 0, 2, 1]);
+  expect(parseIp('::ffff:192.0.2.1')).toEqual([192, 0, 2, 1]);
+  expect(parseIp('2001:db8::1')).toHaveLength(16);
+  expect(parseIp('::')).toEqual(new Array(16).fill(0));
+
+  for (const invalid of ['256.0.0.1', '1.2.3', '1::2::3', '2001:db8:1', 'x']) {
+    expect(parseIp(invalid)).toBeNull();
+  }
+});
+
+test('matches CIDR ranges and single addresses', () => {
+  expect(ipInCidr('203.0.113.77', '203.0.113.0/24')).toBe(true);
+  expect(ipInCidr('203.0.114.1', '203.0.113.0/24')).toBe(false);
+  expect(ipInCidr('10.1.2.3', '10.0.0.0/8')).toBe(true);
+  expect(ipInCidr('10.1.2.3', '0.0.0.0/0')).toBe(true);
+  expect(ipInCidr('192.0.2.1', '192.0.2.1')).toBe(true);
+  expect(ipInCidr('::ffff:192.0.2.1', '192.0.2.0/24')).toBe(true);
+  expect(ipInCidr('2001:db8:abcd::1', '2001:db8::/32')).toBe(true);
+  expect(ipInCidr('2001:db9::1', '2001:db8::/32')).toBe(false);
+  expect(ipInCidr('2001:db8::1', '2001:db8::1/127')).toBe(true);
+});
+
+test('mismatched families and malformed ranges match nothing', () => {
+  expect(ipInCidr('192.0.2.1', '::/0')).toBe(false);
+  expect(ipInCidr('192.0.2.1', '192.0.2.0/33')).toBe(false);
+  expect(ipInCidr('192.0.2.1', '192.0.2.0/24/1')).toBe(false);
+  expect(ipInCidr('192.0.2.1', 'nonsense')).toBe(false);
+});
+
+// Policies
+
+test('reads allowlists from metadata and fails closed on bad lists', () => {
+  expect(parseAccessPolicy(null)).toBeNull();
+  expect(parseAccessPolicy('{"team":"web"}')).toBeNull();
+  expect(parseAccessPolicy('not json')).toBeNull();
+  expect(
+    parseAccessPolicy('{"allowedOrigins":["https://app.example.com"]}'),
+  ).toEqual({ allowedOrigins: ['https://app.example.com'] });
+  expect(parseAccessPolicy('{"allowedIps":"10.0.0.0/8"}')).toEqual({
+    allowedIps: [],
+  });
+});
+
+test('every policy that sets a list must allow the client', () => {
+  const key = { allowedOrigins: ['https://app.example.com'] };
+  const org = { allowedIps: ['203.0.113.0/24'] };
+  const client = { origin: 'https://APP.example.com:443', ip: '203.0.113.9' };
+
+  expect(checkAccess([key, org], client)).toBeNull();
+  expect(checkAccess([key, {}], { ...client, ip: null })).toBeNull();
+  expect(
+    checkAccess([key, org], { ...client, origin: 'https://evil.example' }),
+  ).toBe('ORIGIN_NOT_ALLOWED');
+  expect(checkAccess([key, org], { ...client, origin: null })).toBe(
+    'ORIGIN_NOT_ALLOWED',
+  );
+  expect(checkAccess([key, org], { ...client, ip: '198.51.100.1' })).toBe(
+    'IP_NOT_ALLOWED',
+  );
+  expect(checkAccess([undefined, {}], { origin: null, ip: null })).toBeNull();
+});
@@ -0,0 +1,108 @@
+/**
+ * API versioning tests
+ *
+ * Run with: bun test
+ */
+import { expect, test } from 'bun:test';
+import {
+  API_VERSIONS,
+  apiVersionHeaders,
+  resolveApiVersion,
+  routesForVersion,
+} from '../src/api-version.ts';
+import { defineRoute } from '../src/router.ts';
+import type { ApiVersion } from '../src/types.ts';
+
+// Resolution
+
+test('strips a version prefix from the path', () => {
+  expect(resolveApiVersion('/v1/prompts/abc', null)).toEqual({
+    version: 'v1',
+    pathname: '/prompts/abc',
+  });
+  expect(resolveApiVersion('/v1', null)).toEqual({
+    version: 'v1',
+    pathname: '/',
+  });
+});
+
+test('serves unversioned paths on the default version', () => {
+  expect(resolveApiVersion('/prompts', null)).toEqual({
+    version: 'v1',
+    pathname: '/prompts',
+  });
+  // Only a whole /v{n} segment is a version
+  expect(resolveApiVersion('/v1prompts', null)).toEqual({
+    version: 'v1',
+    pathname: '/v1prompts',
+  });
+});
+
+test('reads Accept-Version when the path has no prefix', () => {
+  expect(resolveApiVersion('/prompts', '1')).toEqual({
+    version: 'v1',
+    pathname: '/prompts',
+  });
+  expect(resolveApiVersion('/prompts', 'V1')).toEqual({
+    version: 'v1',
+    pathname: '/prompts',
+  });
+});
+
+test('rejects unknown versions', () => {
+  expect(resolveApiVersion('/v9/prompts', null)).toHaveProperty(
+    'code',
+    'UNSUPPORTED_API_VERSION',
+  );
+  expect(resolveApiVersion('/prompts', '9')).toHaveProperty(
+    'code',
+    'UNSUPPORTED_API_VERSION',
+  );
+  expect(resolveApiVersion('/prompts', 'latest')).toHaveProperty(
+    'code',
+    'UNSUPPORTED_API_VERSION',
+  );
+});
+
+// Routes and headers
+
+test('narrows routes to the versions they are served on', () => {
+  const handler = async () => new Response(null);
+  const docs = { operationId: 'test', summary: 'Test', response: 'Test' };
+  const shared = defineRoute({
+    method: 'GET',
+    path: '/a',
+    docs,
+    auth: 'public',
+    handler,
+  });
+  const v2Only = defineRoute({
+    method: 'GET',
+    path: '/b',
+    versions: ['v2' as ApiVersion],
+    docs,
+    auth: 'public',
+    handler,
+  });
+
+  expect(routesForVersion([shared, v2Only], 'v1')).toEqual([shared]);
+});
+
+test('adds Deprecation and Sunset headers for retiring versions', () => {
+  expect(apiVersionHeaders('v1')).toEqual({ 'API-Version': 'v1' });
+
+  const original = API_VERSIONS.v1;
+  API_VERSIONS.v1 = {
+    deprecatedAt: '2027-01-01T00:00:00Z',
+    sunsetAt: '2027-07-01T00:00:00Z',
+  };
+  try {
+    expect(apiVersionHeaders('v1')).toEqual({
+      'API-Version': 'v1',
+      Deprecation: '@1798761600',
+      Sunset: 'Thu, 01 Jul 2027 00:00:00 GMT',
+    });
+  } finally {
+    API_VERSIONS.v1 = original;
+  }
+});
@@ -0,0 +1,134 @@
+/**
+ * Client token signing and validation tests
+ *
+ * Run with: bun test
+ */
+import { afterEach, beforeEach, expect, setSystemTime, test } from 'bun:test';
+import {
+  buildClaims,
+  isClientToken,
+  parseTokenRequest,
+  signClientToken,
+  verifyClientToken,
+} from '../src/client-token.ts';
+import { versionInScope } from '../src/permissions.ts';
+import type { ResourceScope } from '../src/types.ts';
+
+const SECRET = 'client-token-secret';
+
+beforeEach(() => {
+  setSystemTime(new Date('2026-03-15T12:00:00Z'));
+});
+
+afterEach(() => {
+  setSystemTime();
+});
+
+const issue = (expiresIn = 300) =>
+  signClientToken(
+    SECRET,
+    buildClaims(
+      { keyId: 'key-1', keyHash: 'hash-1', organizationId: 'org-1' },
+      {
+        prompts: [{ promptId: 'p-1', versions: ['^2.0.0'] }],
+        expiresIn,
+      },
+    ),
+  );
+
+const encode = (value: unknown) =>
+  btoa(JSON.stringify(value))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+// Signing
+
+test('verifies its own tokens and carries the issuer', async () => {
+  const token = await issue();
+
+  expect(isClientToken(token)).toBe(true);
+  expect(isClientToken('pk_live_abc123')).toBe(false);
+  expect(await verifyClientToken(SECRET, token)).toEqual({
+    valid: true,
+    keyId: 'key-1',
+    keyHash: 'hash-1',
+    organizationId: 'org-1',
+    permissions: { 'prompt:p-1': ['read'] },
+    scope: {
+      type: 'token',
+      prompts: [{ promptId: 'p-1', versions: ['^2.0.0'] }],
+    },
+  });
+});
+
+test('rejects tampered claims, other secrets, other algorithms and no secret', async () => {
+  const token = await issue();
+  const [header, payload, signature] = token.split('.');
+  const claims = JSON.parse(atob(payload?.replace(/-/g, '+') ?? ''));
+  const widened = encode({ ...claims, prompts: [{ promptId: 'p-2' }] });
+  const unsigned = encode({ alg: 'none', typ: 'JWT' });
+
+  for (const [secret, candidate] of [
+    [SECRET, `${header}.${widened}.${signature}`],
+    [SECRET, `${unsigned}.${payload}.${signature}`],
+    [SECRET, `${header}.${payload}.`],
+    ['another-secret', token],
+    [undefined, token],
+  ] as const) {
+    expect(await verifyClientToken(secret, candidate)).toEqual({
+      valid: false,
+      code: 'INVALID_TOKEN_SIGNATURE',
+    });
+  }
+});
+
+test('expires at exp', async () => {
+  const token = await issue(60);
+
+  setSystemTime(new Date('2026-03-15T12:00:59Z'));
+  expect((await verifyClientToken(SECRET, token)).valid).toBe(true);
+  setSystemTime(new Date('2026-03-15T12:01:00Z'));
+  expect(await verifyClientToken(SECRET, token)).toEqual({
+    valid: false,
+    code: 'TOKEN_EXPIRED',
+  });
+});
+
+// Requests and scopes
+
+test('parses token requests within the limits', () => {
+  expect(parseTokenRequest('{"prompts":[{"promptId":"p-1"}]}')).toEqual({
+    prompts: [{ promptId: 'p-1' }],
+    expiresIn: 300,
+  });
+
+  for (const invalid of [
+    'not json',
+    '{"prompts":[]}',
+    '{"prompts":[{"promptId":"p-*"}]}',
+    '{"prompts":[{"promptId":"p-1","versions":[]}]}',
+    '{"prompts":[{"promptId":"p-1","versions":["two"]}]}',
+    '{"prompts":[{"promptId":"p-1"}],"expiresIn":10}',
+    '{"prompts":[{"promptId":"p-1"}],"expiresIn":901}',
+  ]) {
+    expect(parseTokenRequest(invalid)).toBeNull();
+  }
+});
+
+test('token scopes name exact prompts and version ranges', () => {
+  const scope: ResourceScope = {
+    type: 'token',
+    prompts: [
+      { promptId: 'p-1', versions: ['^2.0.0', '1.4.2'] },
+      { promptId: 'p-2' },
+    ],
+  };
+
+  expect(versionInScope(scope, 'p-1', '2.3.0')).toBe(true);
+  expect(versionInScope(scope, 'p-1', '1.4.2')).toBe(true);
+  expect(versionInScope(scope, 'p-1', '1.4.3')).toBe(false);
+  expect(versionInScope(scope, 'p-2', '9.0.0')).toBe(true);
+  expect(versionInScope(scope, 'p-3', '1.0.0')).toBe(false);
+  expect(versionInScope({ type: 'all' }, 'p-3', '1.0.0')).toBe(true);
+});
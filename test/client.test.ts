@@ -0,0 +1,205 @@
+import { expect, test } from 'bun:test';
+import {
+  createPromptlyClient,
+  NotFoundError,
+  PromptlyError,
+  RateLimitedError,
+  UsageLimitExceededError,
+  VersionNotFoundError,
+} from '../client/src/index.ts';
+import type { PromptResponse } from '../src/types.ts';
+
+const PROMPT: PromptResponse = {
+  promptId: 'prompt-1',
+  promptName: 'Greeting',
+  version: '1.0.0',
+  systemMessage: 'Be nice',
+  userMessage: 'Hello',
+  config: {},
+};
+
+const json = (
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {},
+) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+
+/**
+ * A fetch that replays queued responses and records each request
+ */
+const fakeFetch = (...responses: (Response | Error)[]) => {
+  const calls: { url: string; headers: Record<string, string> }[] = [];
+  const fetch = (async (input: string, init?: RequestInit) => {
+    calls.push({
+      url: input,
+      headers: (init?.headers ?? {}) as Record<string, string>,
+    });
+    const next = responses.shift();
+    if (!next) {
+      throw new Error('Unexpected request');
+    }
+    if (next instanceof Error) {
+      throw next;
+    }
+    return next;
+  }) as typeof globalThis.fetch;
+  return { fetch, calls };
+};
+
+const noSleep = (delays: number[] = []) => ({
+  sleep: async (ms: number) => {
+    delays.push(ms);
+  },
+  delays,
+});
+
+// Requests
+
+test('getPrompt sends the key and version to the v1 API', async () => {
+  const { fetch, calls } = fakeFetch(json(PROMPT));
+  const client = createPromptlyClient({ apiKey: 'key_123', fetch });
+
+  const prompt = await client.getPrompt('prompt-1', { version: '^1.0.0' });
+
+  expect(prompt).toEqual(PROMPT);
+  expect(calls[0]?.url).toBe(
+    'https://api.promptlycms.com/v1/prompts/prompt-1?version=%5E1.0.0',
+  );
+  expect(calls[0]?.headers.Authorization).toBe('Bearer key_123');
+});
+
+// Errors
+
+test('error responses become typed errors', async () => {
+  const { fetch } = fakeFetch(
+    json({ error: 'Version not found', code: 'VERSION_NOT_FOUND' }, 404),
+  );
+  const client = createPromptlyClient({ apiKey: 'key', fetch, cache: false });
+
+  const error = await client.getPrompt('prompt-1').catch((e: unknown) => e);
+
+  expect(error).toBeInstanceOf(VersionNotFoundError);
+  expect(error).toBeInstanceOf(NotFoundError);
+  expect(error).toBeInstanceOf(PromptlyError);
+  expect((error as VersionNotFoundError).status).toBe(404);
+});
+
+test('monthly quota errors are not retried and carry usage', async () => {
+  const { fetch, calls } = fakeFetch(
+    json(
+      {
+        error: 'Monthly API call limit exceeded',
+        code: 'USAGE_LIMIT_EXCEEDED',
+        usage: { limit: 5000, used: 5000, resetAt: '2026-11-01T00:00:00Z' },
+        upgradeUrl: 'https://app.promptlycms.com/settings?tab=billing',
+      },
+      429,
+      { 'Retry-After': '1000000' },
+    ),
+  );
+  const client = createPromptlyClient({ apiKey: 'key', fetch, ...noSleep() });
+
+  const error = await client.getPrompt('prompt-1').catch((e: unknown) => e);
+
+  expect(error).toBeInstanceOf(UsageLimitExceededError);
+  expect((error as UsageLimitExceededError).usage.limit).toBe(5000);
+  expect(calls).toHaveLength(1);
+});
+
+// Retries
+
+test('burst 429s wait for Retry-After before retrying', async () => {
+  const limited = () =>
+    json({ error: 'Too many requests', code: 'RATE_LIMITED' }, 429, {
+      'Retry-After': '2',
+    });
+  const { fetch, calls } = fakeFetch(limited(), json(PROMPT));
+  const { sleep, delays } = noSleep();
+  const client = createPromptlyClient({ apiKey: 'key', fetch, sleep });
+
+  expect(await client.getPrompt('prompt-1')).toEqual(PROMPT);
+  expect(calls).toHaveLength(2);
+  expect(delays).toEqual([2000]);
+});
+
+test('gives up with a typed error once retries run out', async () => {
+  const limited = () =>
+    json({ error: 'Too many requests', code: 'RATE_LIMITED' }, 429, {
+      'Retry-After': '1',
+    });
+  const { fetch, calls } = fakeFetch(limited(), limited(), limited());
+  const client = createPromptlyClient({
+    apiKey: 'key',
+    fetch,
+    retries: 2,
+    ...noSleep(),
+  });
+
+  const error = await client.getPrompt('prompt-1').catch((e: unknown) => e);
+
+  expect(error).toBeInstanceOf(RateLimitedError);
+  expect((error as RateLimitedError).retryAfter).toBe(1);
+  expect(calls).toHaveLength(3);
+});
+
+// Caching
+
+test('fresh responses are served from cache; stale ones revalidate', async () => {
+  const { fetch, calls } = fakeFetch(
+    json(PROMPT, 200, { 'Cache-Control': 'max-age=60', ETag: '"v1"' }),
+    new Response(null, { status: 304, headers: { ETag: '"v1"' } }),
+  );
+  const client = createPromptlyClient({ apiKey: 'key', fetch });
+
+  await client.getPrompt('prompt-1');
+  expect(await client.getPrompt('prompt-1')).toEqual(PROMPT);
+  expect(calls).toHaveLength(1);
+
+  const realNow = Date.now;
+  Date.now = () => realNow() + 61_000;
+  try {
+    expect(await client.getPrompt('prompt-1')).toEqual(PROMPT);
+  } finally {
+    Date.now = realNow;
+  }
+  expect(calls).toHaveLength(2);
+  expect(calls[1]?.headers['If-None-Match']).toBe('"v1"');
+});
+
+test('falls back to the last-known-good copy when the API fails', async () => {
+  const { fetch } = fakeFetch(
+    json(PROMPT, 200, { ETag: '"v1"' }),
+    json({ error: 'Internal server error', code: 'INTERNAL_ERROR' }, 500),
+    new TypeError('fetch failed'),
+  );
+  const fallbacks: unknown[] = [];
+  const client = createPromptlyClient({
+    apiKey: 'key',
+    fetch,
+    retries: 1,
+    onFallback: (error) => fallbacks.push(error),
+    ...noSleep(),
+  });
+
+  await client.getPrompt('prompt-1');
+  expect(await client.getPrompt('prompt-1')).toEqual(PROMPT);
+  expect(fallbacks).toHaveLength(1);
+  expect(fallbacks[0]).toBeInstanceOf(TypeError);
+});
+
+test('authoritative errors are not masked by the cache', async () => {
+  const { fetch } = fakeFetch(
+    json(PROMPT),
+    json({ error: 'Prompt not found', code: 'NOT_FOUND' }, 404),
+  );
+  const client = createPromptlyClient({ apiKey: 'key', fetch });
+
+  await client.getPrompt('prompt-1');
+  await expect(client.getPrompt('prompt-1')).rejects.toBeInstanceOf(
+    NotFoundError,
+  );
+});
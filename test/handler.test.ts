@@ -0,0 +1,1328 @@
+/**
+ * Handler integration tests
+ *
+ * Runs the worker offline through the harness in test/harness: real
+ * handleRequest, SQLite D1, in-memory KV and a frozen clock.
+ *
+ * Run with: bun test
+ */
+import { afterEach, beforeEach, expect, spyOn, test } from 'bun:test';
+import { invalidateCache } from '../src/invalidate-cache.ts';
+import { revokeApiKeys } from '../src/revocation.ts';
+import type {
+  BatchResponse,
+  ErrorResponse,
+  PromptListResponse,
+  PromptResponse,
+  RateLimitResponse,
+  RevocationResponse,
+  TokenResponse,
+  UsageBreakdown,
+} from '../src/types.ts';
+import { createHarness, type Harness, hashKey } from './harness/index.ts';
+
+let h: Harness;
+let orgId: string;
+let key: string;
+
+beforeEach(async () => {
+  h = createHarness();
+  orgId = h.fixtures.organization().id;
+  key = (await h.fixtures.apiKey(orgId)).key;
+});
+
+afterEach(() => {
+  h.close();
+});
+
+const get = (path: string, headers?: Record<string, string>) =>
+  h.request('GET', path, { key, headers });
+
+/**
+ * A prompt with a draft and versions 1.0.0, 1.1.0 and 2.0.0
+ */
+const seedPrompt = () => {
+  const { id } = h.fixtures.prompt(orgId, { name: 'Greeting' });
+  h.fixtures.version(id, '1.0.0', { userMessage: 'v1.0.0' });
+  const v110 = h.fixtures.version(id, '1.1.0', { userMessage: 'v1.1.0' });
+  h.fixtures.version(id, '2.0.0', { userMessage: 'v2.0.0' });
+  h.fixtures.version(id, null, { userMessage: 'draft' });
+  return { promptId: id, v110: v110.id };
+};
+
+/**
+ * Count the prompt and version lookups that reached D1
+ */
+const promptReads = () => ({
+  prompt: h.queries.filter((sql) => sql.includes('FROM prompt WHERE')).length,
+  version: h.queries.filter((sql) => sql.includes('FROM prompt_version'))
+    .length,
+});
+
+const usageRows = () =>
+  h.db.query('SELECT period, count FROM api_usage ORDER BY period').all() as {
+    period: string;
+    count: number;
+  }[];
+
+// Authentication
+
+test('rejects missing and unknown keys', async () => {
+  const missing = await h.request('GET', '/prompts');
+  const unknown = await h.request('GET', '/prompts', { key: 'nope' });
+
+  expect(missing.status).toBe(401);
+  expect(((await missing.json()) as ErrorResponse).code).toBe('UNAUTHORIZED');
+  expect(unknown.status).toBe(401);
+  expect(((await unknown.json()) as ErrorResponse).code).toBe('INVALID_KEY');
+});
+
+test('rejects disabled keys and keys without prompt:read', async () => {
+  const disabled = await h.fixtures.apiKey(orgId, { enabled: false });
+  const writeOnly = await h.fixtures.apiKey(orgId, {
+    permissions: { prompt: ['write'] },
+  });
+
+  const disabledResponse = await h.request('GET', '/prompts', {
+    key: disabled.key,
+  });
+  const forbidden = await h.request('GET', '/prompts', { key: writeOnly.key });
+
+  expect(disabledResponse.status).toBe(401);
+  expect(((await disabledResponse.json()) as ErrorResponse).code).toBe(
+    'DISABLED',
+  );
+  expect(forbidden.status).toBe(403);
+  expect(((await forbidden.json()) as ErrorResponse).code).toBe('FORBIDDEN');
+});
+
+test('keys stop working once they expire', async () => {
+  const expiring = await h.fixtures.apiKey(orgId, {
+    expiresAt: h.clock.now() + 60_000,
+  });
+
+  expect(
+    (await h.request('GET', '/prompts', { key: expiring.key })).status,
+  ).toBe(200);
+
+  h.clock.advance(60_001);
+  const expired = await h.request('GET', '/prompts', { key: expiring.key });
+  expect(expired.status).toBe(401);
+  expect(((await expired.json()) as ErrorResponse).code).toBe('EXPIRED');
+});
+
+test('key lookups are cached for five minutes, then refreshed after one stale use', async () => {
+  expect((await get('/prompts')).status).toBe(200);
+  h.db.run('UPDATE apikey SET enabled = 0');
+
+  h.clock.advance(299_000);
+  expect((await get('/prompts')).status).toBe(200);
+
+  // Stale: served once while the background refresh picks up the change
+  h.clock.advance(2000);
+  expect((await get('/prompts')).status).toBe(200);
+  expect((await get('/prompts')).status).toBe(401);
+});
+
+test('stale keys are not served past the stale window', async () => {
+  expect((await get('/prompts')).status).toBe(200);
+  h.db.run('UPDATE apikey SET enabled = 0');
+
+  h.clock.advance(901_000);
+  expect((await get('/prompts')).status).toBe(401);
+});
+
+// Prompt cache branches
+
+test('a cold fetch reads prompt and version from D1 and caches both', async () => {
+  const { promptId } = seedPrompt();
+
+  const response = await get(`/prompts/${promptId}`);
+
+  expect(response.status).toBe(200);
+  expect(((await response.json()) as PromptResponse).version).toBe('2.0.0');
+  expect(promptReads()).toEqual({ prompt: 1, version: 1 });
+  expect(h.kvKeys()).toContain(`prompt:${promptId}`);
+  expect(h.kvKeys()).toContain(`version:${promptId}:latest`);
+});
+
+test('a warm fetch is served from memory, then from KV', async () => {
+  const { promptId } = seedPrompt();
+  await get(`/prompts/${promptId}`);
+  h.queries.length = 0;
+
+  expect((await get(`/prompts/${promptId}`)).status).toBe(200);
+  h.evictMemoryCache();
+  h.queries.length = 0;
+  expect((await get(`/prompts/${promptId}`)).status).toBe(200);
+
+  // The key lookup was cached too, so only usage queries ran
+  expect(promptReads()).toEqual({ prompt: 0, version: 0 });
+});
+
+test('a cached prompt with an uncached version only reads the version', async () => {
+  const { promptId } = seedPrompt();
+  await get(`/prompts/${promptId}`);
+  h.queries.length = 0;
+
+  const response = await get(`/prompts/${promptId}?version=1.0.0`);
+
+  expect(((await response.json()) as PromptResponse).userMessage).toBe(
+    'v1.0.0',
+  );
+  expect(promptReads()).toEqual({ prompt: 0, version: 1 });
+  expect(h.kvKeys()).toContain(`version:${promptId}:1.0.0`);
+});
+
+test('a cached version with an evicted prompt reads both again', async () => {
+  const { promptId } = seedPrompt();
+  await get(`/prompts/${promptId}`);
+  h.evictMemoryCache();
+  await h.env.PROMPTS_CACHE.delete(`prompt:${promptId}`);
+  h.queries.length = 0;
+
+  expect((await get(`/prompts/${promptId}`)).status).toBe(200);
+  expect(promptReads()).toEqual({ prompt: 1, version: 1 });
+});
+
+test('stale latest is served at once and refreshed in the background', async () => {
+  const { promptId } = seedPrompt();
+  await get(`/prompts/${promptId}`);
+  h.fixtures.version(promptId, '2.1.0');
+
+  h.clock.advance(301_000);
+  h.queries.length = 0;
+  const stale = await get(`/prompts/${promptId}`);
+  const refreshed = await get(`/prompts/${promptId}`);
+
+  expect(((await stale.json()) as PromptResponse).version).toBe('2.0.0');
+  expect(stale.headers.get('Server-Timing')).toContain(
+    'l1;desc="version stale"',
+  );
+  // One background refresh per stale entry (prompt and version), via waitUntil
+  expect(promptReads()).toEqual({ prompt: 1, version: 1 });
+  expect(((await refreshed.json()) as PromptResponse).version).toBe('2.1.0');
+});
+
+test('latest past the stale window is re-read before responding', async () => {
+  const { promptId } = seedPrompt();
+  await get(`/prompts/${promptId}`);
+  h.fixtures.version(promptId, '2.1.0');
+
+  h.clock.advance(3_901_000);
+  const response = await get(`/prompts/${promptId}`);
+
+  expect(((await response.json()) as PromptResponse).version).toBe('2.1.0');
+});
+
+test('a refresh that finds the prompt deleted drops it from the cache', async () => {
+  const { promptId } = seedPrompt();
+  await get(`/prompts/${promptId}`);
+  h.db.run('UPDATE prompt SET deleted_at = 1');
+
+  h.clock.advance(301_000);
+  expect((await get(`/prompts/${promptId}`)).status).toBe(200);
+  expect(h.kvKeys()).not.toContain(`prompt:${promptId}`);
+  expect((await get(`/prompts/${promptId}`)).status).toBe(404);
+});
+
+// Request coalescing
+
+const countQueries = (fragment: string) =>
+  h.queries.filter((sql) => sql.includes(fragment)).length;
+
+test('concurrent cold requests share one D1 load per cache key', async () => {
+  const { promptId } = seedPrompt();
+  h.setD1Latency(5);
+
+  const responses = await Promise.all(
+    Array.from({ length: 5 }, () => get(`/prompts/${promptId}`)),
+  );
+
+  expect(responses.map((response) => response.status)).toEqual([
+    200, 200, 200, 200, 200,
+  ]);
+  expect(countQueries('FROM apikey')).toBe(1);
+  expect(countQueries('FROM subscription')).toBe(1);
+  expect(promptReads()).toEqual({ prompt: 1, version: 1 });
+});
+
+test('concurrent misses on an expired latest version run one query', async () => {
+  const { promptId } = seedPrompt();
+  await get(`/prompts/${promptId}`);
+  h.evictMemoryCache();
+  h.clock.advance(3_901_000);
+  h.queries.length = 0;
+  h.setD1Latency(5);
+
+  const bodies = await Promise.all(
+    Array.from({ length: 5 }, async () =>
+      (await get(`/prompts/${promptId}`)).json(),
+    ),
+  );
+
+  expect(
+    new Set(bodies.map((body) => (body as PromptResponse).version)),
+  ).toEqual(new Set(['2.0.0']));
+  expect(promptReads()).toEqual({ prompt: 1, version: 1 });
+});
+
+// Negative caching
+
+test('unknown keys are remembered for a minute', async () => {
+  const bad = () => h.request('GET', '/prompts', { key: 'not-a-key' });
+
+  const statuses = [(await bad()).status, (await bad()).status];
+  h.evictMemoryCache();
+  statuses.push((await bad()).status);
+
+  expect(statuses).toEqual([401, 401, 401]);
+  expect(countQueries('FROM apikey')).toBe(1);
+
+  h.clock.advance(61_000);
+  await bad();
+  expect(countQueries('FROM apikey')).toBe(2);
+});
+
+test('apikey.created clears a remembered miss for the new key', async () => {
+  const early = () => h.request('GET', '/prompts', { key: 'fresh-key' });
+  expect((await early()).status).toBe(401);
+
+  await h.fixtures.apiKey(orgId, { key: 'fresh-key' });
+  await invalidateCache(h.env, [
+    { type: 'apikey.created', keyHash: await hashKey('fresh-key') },
+  ]);
+
+  expect((await early()).status).toBe(200);
+});
+
+test('missing prompts and versions are remembered until published', async () => {
+  const { promptId } = seedPrompt();
+  h.queries.length = 0;
+
+  for (let i = 0; i < 3; i++) {
+    expect((await get('/prompts/nope')).status).toBe(404);
+    expect((await get(`/prompts/${promptId}?version=3.0.0`)).status).toBe(404);
+    // Stay under the per-second burst limit
+    h.clock.advance(1000);
+  }
+  expect(countQueries('FROM prompt WHERE')).toBe(2);
+  expect(countQueries('AND major = ?')).toBe(1);
+
+  h.fixtures.version(promptId, '3.0.0');
+  await invalidateCache(h.env, [{ type: 'prompt.published', promptId }]);
+
+  const published = await get(`/prompts/${promptId}?version=3.0.0`);
+  expect(((await published.json()) as PromptResponse).version).toBe('3.0.0');
+});
+
+test('negative entries are read alongside the positive lookup', async () => {
+  // Server-Timing entries from the prompt lookup on, without durations
+  const timing = async (path: string) => {
+    const response = await get(path);
+    h.clock.advance(1000);
+    const entries = (response.headers.get('Server-Timing') ?? '')
+      .split(', ')
+      .map((entry) => entry.replace(/;dur=.*$/, ''));
+    return entries.slice(entries.indexOf('l1;desc="prompt miss"'));
+  };
+
+  // Cold: every L1 miss comes before the KV reads, which run together
+  const cold = await timing('/prompts/nope');
+  const firstL2 = cold.findIndex((entry) => entry.startsWith('l2;'));
+  expect(cold.lastIndexOf('l1;desc="missing miss"')).toBeLessThan(firstL2);
+  expect(cold.slice(firstL2, firstL2 + 2)).toEqual([
+    'l2;desc="prompt miss"',
+    'l2;desc="missing miss"',
+  ]);
+
+  // A miss remembered in L1 never reaches KV for the positive key
+  const warm = await timing('/prompts/nope');
+  expect(warm).toContain('l1;desc="missing hit"');
+  expect(warm).not.toContain('l2;desc="prompt miss"');
+
+  // Remembered in KV only: answered without D1
+  h.evictMemoryCache();
+  const evicted = await timing('/prompts/nope');
+  expect(evicted).toContain('l2;desc="missing hit"');
+  expect(countQueries('FROM prompt WHERE')).toBe(1);
+});
+
+// Revocation
+
+const WEBHOOK_SECRET = 'webhook-secret';
+
+/**
+ * Send a body signed the way the CMS signs its webhooks
+ */
+const signedPost = async (path: string, body: unknown) => {
+  const payload = JSON.stringify(body);
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const encoder = new TextEncoder();
+  const secret = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(WEBHOOK_SECRET),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const mac = await crypto.subtle.sign(
+    'HMAC',
+    secret,
+    encoder.encode(`${timestamp}.${payload}`),
+  );
+  return h.request('POST', path, {
+    body,
+    headers: {
+      'X-Promptly-Timestamp': timestamp,
+      'X-Promptly-Signature': `sha256=${Buffer.from(mac).toString('hex')}`,
+    },
+  });
+};
+
+test('a revoked key is rejected while its cache entry is still warm', async () => {
+  expect((await get('/prompts')).status).toBe(200);
+  h.queries.length = 0;
+
+  // Deny-list only: this isolate's apikey entry is untouched
+  await revokeApiKeys(h.env, { keyHashes: [await hashKey(key)] });
+  const revoked = await get('/prompts');
+
+  expect(revoked.status).toBe(401);
+  expect(((await revoked.json()) as ErrorResponse).code).toBe('REVOKED');
+  expect(revoked.headers.get('Server-Timing')).toContain(
+    'l1;desc="apikey hit"',
+  );
+  expect(countQueries('FROM apikey')).toBe(0);
+});
+
+test('other isolates see a revocation within five seconds', async () => {
+  const keyHash = await hashKey(key);
+  expect((await get('/prompts')).status).toBe(200);
+  const warm = await get('/prompts');
+  expect(warm.headers.get('Server-Timing')).toContain(
+    'l1;desc="revocation hit"',
+  );
+  expect(warm.headers.get('Server-Timing')).not.toContain(
+    'do;desc="revocation"',
+  );
+
+  // Written straight to the Durable Object, as another isolate would
+  h.revocations
+    .get(`shard:${keyHash.charAt(0)}`)
+    ?.set(keyHash, { revokedAt: Date.now() });
+  expect((await get('/prompts')).status).toBe(200);
+
+  h.clock.advance(5001);
+  expect((await get('/prompts')).status).toBe(401);
+});
+
+test('POST /internal/revocations deny-lists signed key hashes', async () => {
+  const keyHash = await hashKey(key);
+  expect((await get('/prompts')).status).toBe(200);
+  expect((await signedPost('/internal/revocations', {})).status).toBe(404);
+
+  h.env.INVALIDATION_SECRET = WEBHOOK_SECRET;
+  const unsigned = await h.request('POST', '/internal/revocations', {
+    body: { keyHashes: [keyHash] },
+  });
+  const invalid = await signedPost('/internal/revocations', { keyHashes: [] });
+  const ok = await signedPost('/internal/revocations', {
+    keyHashes: [keyHash],
+    reason: 'leaked in a public repo',
+  });
+
+  expect(unsigned.status).toBe(401);
+  expect(invalid.status).toBe(400);
+  expect((await ok.json()) as RevocationResponse).toEqual({
+    revoked: [keyHash],
+  });
+  expect(h.revocations.get(`shard:${keyHash.charAt(0)}`)?.get(keyHash)).toEqual(
+    { revokedAt: Date.now(), reason: 'leaked in a public repo' },
+  );
+  expect(h.kvKeys()).not.toContain(`apikey:${keyHash}`);
+  expect((await get('/prompts')).status).toBe(401);
+
+  // Without the Durable Object it would only reach this isolate
+  delete h.env.REVOCATIONS;
+  const unavailable = await signedPost('/internal/revocations', {
+    keyHashes: [keyHash],
+  });
+  expect(unavailable.status).toBe(503);
+  expect(((await unavailable.json()) as ErrorResponse).code).toBe(
+    'REVOCATIONS_UNAVAILABLE',
+  );
+});
+
+// Listing
+
+/**
+ * GET /prompts, a second later each time to stay under the burst limit
+ */
+const list = async (query = '', apiKey = key) => {
+  h.clock.advance(1000);
+  return h.request('GET', `/prompts${query}`, { key: apiKey });
+};
+
+const listIds = async (query: string, apiKey = key) =>
+  ((await (await list(query, apiKey)).json()) as PromptListResponse).data.map(
+    (prompt) => prompt.promptId,
+  );
+
+/**
+ * Follow Link headers from the first page, collecting each page's IDs
+ */
+const walkPages = async (query: string, apiKey = key) => {
+  const pages: string[][] = [];
+  let next: string | null = `/prompts${query}`;
+  while (next) {
+    h.clock.advance(1000);
+    const response = await h.request('GET', next, { key: apiKey });
+    const body = (await response.json()) as PromptListResponse;
+    pages.push(body.data.map((prompt) => prompt.promptId));
+
+    const link = response.headers.get('Link');
+    expect(link === null).toBe(body.pagination.nextCursor === null);
+    const url = link?.match(/^<([^>]+)>; rel="next"$/)?.[1];
+    next = url ? `${new URL(url).pathname}${new URL(url).search}` : null;
+    if (url) {
+      expect(new URL(url).searchParams.get('cursor')).toBe(
+        body.pagination.nextCursor,
+      );
+    }
+  }
+  return pages;
+};
+
+test('pagination is opt-in: a bare array without limit or cursor', async () => {
+  for (const id of ['p-a', 'p-b', 'p-c']) {
+    h.fixtures.prompt(orgId, { id });
+    h.fixtures.version(id, '1.0.0');
+  }
+
+  const bare = (await (await list()).json()) as PromptResponse[];
+  const page = (await (await list('?limit=2')).json()) as PromptListResponse;
+
+  expect(bare.map((prompt) => prompt.promptId)).toEqual(['p-a', 'p-b', 'p-c']);
+  expect(page.data).toHaveLength(2);
+  expect(page.pagination).toEqual({
+    limit: 2,
+    nextCursor: expect.any(String),
+  });
+});
+
+test('pages follow nextCursor and Link through rows that tie on the sort', async () => {
+  const ids = ['t-e', 't-c', 't-a', 't-d', 't-b'];
+  for (const id of ids) {
+    h.fixtures.prompt(orgId, { id, name: 'Same name' });
+    h.fixtures.version(id, '1.0.0');
+  }
+
+  expect(await walkPages('?limit=2')).toEqual([
+    ['t-a', 't-b'],
+    ['t-c', 't-d'],
+    ['t-e'],
+  ]);
+  expect(await walkPages('?limit=2&sort=-name')).toEqual([
+    ['t-e', 't-d'],
+    ['t-c', 't-b'],
+    ['t-a'],
+  ]);
+});
+
+test('sorts by -updated_at and filters by updated_since', async () => {
+  for (const id of ['old', 'middle', 'new']) {
+    h.fixtures.prompt(orgId, { id });
+    h.fixtures.version(id, '1.0.0');
+    h.clock.advance(60_000);
+  }
+  const middleUpdated = new Date(Date.now() - 120_000).toISOString();
+
+  expect(await listIds('?limit=10&sort=-updated_at')).toEqual([
+    'new',
+    'middle',
+    'old',
+  ]);
+  expect(
+    await walkPages(`?limit=1&sort=-updated_at&updated_since=${middleUpdated}`),
+  ).toEqual([['new'], ['middle']]);
+});
+
+test('rejects bad limits, timestamps, sorts and cursors', async () => {
+  for (const id of ['p-a', 'p-b']) {
+    h.fixtures.prompt(orgId, { id });
+    h.fixtures.version(id, '1.0.0');
+  }
+  const { pagination } = (await (
+    await list('?limit=1')
+  ).json()) as PromptListResponse;
+  const cursor = pagination.nextCursor as string;
+
+  for (const query of [
+    '?limit=0',
+    '?limit=101',
+    '?limit=ten',
+    '?updated_since=yesterday',
+    '?sort=size',
+    `?cursor=${cursor}&sort=-name`,
+    `?cursor=${cursor}&sort=created_at`,
+    '?cursor=not-a-cursor',
+  ]) {
+    const response = await list(query);
+    expect([query, response.status]).toEqual([query, 400]);
+    expect(((await response.json()) as ErrorResponse).code).toBe('BAD_REQUEST');
+  }
+  expect(await listIds(`?cursor=${cursor}`)).toEqual(['p-b']);
+});
+
+test('search matches % and _ literally', async () => {
+  for (const [id, name] of [
+    ['percent', '100% off'],
+    ['plain', '100 off'],
+    ['underscore', 'snake_case'],
+    ['letter', 'snakeXcase'],
+  ] as const) {
+    h.fixtures.prompt(orgId, { id, name });
+    h.fixtures.version(id, '1.0.0');
+  }
+
+  expect(await listIds('?limit=10&q=100%25')).toEqual(['percent']);
+  expect(await listIds('?limit=10&q=e_c')).toEqual(['underscore']);
+  expect(await listIds('?limit=10&q=OFF')).toEqual(['plain', 'percent']);
+});
+
+test('scoped keys still get full pages', async () => {
+  for (const id of ['a-1', 'b-1', 'a-2', 'b-2', 'a-3', 'b-3']) {
+    h.fixtures.prompt(orgId, { id, name: id.split('-').reverse().join('-') });
+    h.fixtures.version(id, '1.0.0');
+  }
+  const scoped = await h.fixtures.apiKey(orgId, {
+    permissions: { 'prompt:a-*': ['read'] },
+  });
+
+  // Sorted by name, out-of-scope prompts sit between the matching ones
+  expect(await walkPages('?limit=2', scoped.key)).toEqual([
+    ['a-1', 'a-2'],
+    ['a-3'],
+  ]);
+});
+
+// Resource scopes
+
+test('scoped keys only list and fetch the prompts they match', async () => {
+  for (const id of ['checkout-cart', 'checkout-pay', 'support-faq']) {
+    h.fixtures.prompt(orgId, { id, name: id });
+    h.fixtures.version(id, '1.0.0');
+  }
+  const scoped = await h.fixtures.apiKey(orgId, {
+    permissions: { 'prompt:checkout-*': ['read'] },
+  });
+  const as = (path: string) => h.request('GET', path, { key: scoped.key });
+
+  const listed = (await (await as('/prompts')).json()) as PromptResponse[];
+  const firstPage = (await (await as('/prompts?limit=1')).json()) as {
+    data: PromptResponse[];
+    pagination: { nextCursor: string | null };
+  };
+  h.queries.length = 0;
+  const outside = await as('/prompts/support-faq');
+  const outsideReads = countQueries('FROM prompt WHERE');
+
+  expect(listed.map((prompt) => prompt.promptId)).toEqual([
+    'checkout-cart',
+    'checkout-pay',
+  ]);
+  expect(firstPage.data).toHaveLength(1);
+  expect(firstPage.pagination.nextCursor).not.toBeNull();
+  expect((await as('/prompts/checkout-pay')).status).toBe(200);
+  expect(outside.status).toBe(404);
+  expect(((await outside.json()) as ErrorResponse).code).toBe('NOT_FOUND');
+  expect(outsideReads).toBe(0);
+});
+
+test('scopes apply per batch item', async () => {
+  for (const id of ['team-a', 'team-b']) {
+    h.fixtures.prompt(orgId, { id });
+    h.fixtures.version(id, '1.0.0');
+  }
+  const scoped = await h.fixtures.apiKey(orgId, {
+    permissions: { 'prompt:team-a': ['*'] },
+  });
+
+  const response = await h.request('POST', '/prompts/batch', {
+    key: scoped.key,
+    body: { prompts: [{ promptId: 'team-a' }, { promptId: 'team-b' }] },
+  });
+  const { results } = (await response.json()) as BatchResponse;
+
+  expect(results.map((result) => result.status)).toEqual([200, 404]);
+});
+
+test('scoped keys only see usage of the prompts they match', async () => {
+  for (const id of ['team-a', 'team-b']) {
+    h.fixtures.prompt(orgId, { id, name: id });
+    h.fixtures.version(id, '1.0.0');
+  }
+  // Usage by the unscoped key: a fetch of each prompt and a listing
+  await get('/prompts/team-a');
+  await get('/prompts/team-b');
+  await get('/prompts');
+  const scoped = await h.fixtures.apiKey(orgId, {
+    permissions: { 'prompt:team-a': ['read'] },
+  });
+  const breakdown = async (groupBy: string) => {
+    const response = await h.request(
+      'GET',
+      `/usage/breakdown?group_by=${groupBy}`,
+      { key: scoped.key },
+    );
+    return ((await response.json()) as UsageBreakdown).items;
+  };
+
+  expect(await breakdown('prompt')).toEqual([
+    { promptId: 'team-a', promptName: 'team-a', count: 1 },
+  ]);
+  expect(await breakdown('version')).toEqual([
+    { promptId: 'team-a', version: '1.0.0', count: 1 },
+  ]);
+  expect(await breakdown('apikey')).toEqual([{ apiKeyId: 'key-1', count: 1 }]);
+});
+
+// Access policies
+
+test('keys with allowed origins echo them and reject other origins', async () => {
+  const browser = await h.fixtures.apiKey(orgId, {
+    metadata: { allowedOrigins: ['https://app.example.com'] },
+  });
+  const from = (origin?: string) =>
+    h.request('GET', '/prompts', {
+      key: browser.key,
+      headers: origin ? { Origin: origin } : {},
+    });
+
+  const allowed = await from('https://app.example.com');
+  const other = await from('https://evil.example');
+  const server = await from();
+
+  expect(allowed.status).toBe(200);
+  expect(allowed.headers.get('Access-Control-Allow-Origin')).toBe(
+    'https://app.example.com',
+  );
+  expect(allowed.headers.get('Vary')).toContain('Origin');
+  expect(other.status).toBe(403);
+  expect(((await other.json()) as ErrorResponse).code).toBe(
+    'ORIGIN_NOT_ALLOWED',
+  );
+  expect(other.headers.get('Access-Control-Allow-Origin')).toBeNull();
+  expect(server.status).toBe(403);
+
+  // Unrestricted keys keep the open CORS policy
+  const open = await get('/prompts', { Origin: 'https://evil.example' });
+  expect(open.headers.get('Access-Control-Allow-Origin')).toBe('*');
+});
+
+test('keys with allowed IPs check CF-Connecting-IP', async () => {
+  const server = await h.fixtures.apiKey(orgId, {
+    metadata: { allowedIps: ['203.0.113.0/24', '2001:db8::/32'] },
+  });
+  const from = (ip?: string) =>
+    h.request('GET', '/prompts', {
+      key: server.key,
+      headers: ip ? { 'CF-Connecting-IP': ip } : {},
+    });
+
+  expect((await from('203.0.113.10')).status).toBe(200);
+  expect((await from('2001:db8::7')).status).toBe(200);
+  const outside = await from('198.51.100.1');
+  expect(outside.status).toBe(403);
+  expect(((await outside.json()) as ErrorResponse).code).toBe('IP_NOT_ALLOWED');
+  expect((await from()).status).toBe(403);
+});
+
+test('an organization policy applies to every key until it is updated', async () => {
+  const locked = h.fixtures.organization({
+    metadata: { allowedIps: ['10.0.0.0/8'] },
+  }).id;
+  const lockedKey = await h.fixtures.apiKey(locked);
+  const from = (ip: string) =>
+    h.request('GET', '/prompts', {
+      key: lockedKey.key,
+      headers: { 'CF-Connecting-IP': ip },
+    });
+
+  expect((await from('10.2.3.4')).status).toBe(200);
+  expect((await from('192.0.2.1')).status).toBe(403);
+
+  h.db.run('UPDATE organization SET metadata = NULL WHERE id = ?', [locked]);
+  await invalidateCache(h.env, [
+    { type: 'organization.updated', organizationId: locked },
+  ]);
+  expect((await from('192.0.2.1')).status).toBe(200);
+});
+
+// Client tokens
+
+const TOKEN_SECRET = 'test-token-secret';
+
+/**
+ * Exchange an API key for a client token
+ */
+const issueToken = (body: unknown, apiKey = key) =>
+  h.request('POST', '/tokens', { key: apiKey, body });
+
+const tokenFor = async (body: unknown, apiKey = key) =>
+  ((await (await issueToken(body, apiKey)).json()) as TokenResponse).token;
+
+test('POST /tokens issues tokens for prompts the key can read', async () => {
+  const { promptId } = seedPrompt();
+  expect((await issueToken({ prompts: [{ promptId }] })).status).toBe(404);
+
+  h.env.TOKEN_SECRET = TOKEN_SECRET;
+  const scoped = await h.fixtures.apiKey(orgId, {
+    permissions: { 'prompt:other-*': ['read'] },
+  });
+  const outside = await issueToken({ prompts: [{ promptId }] }, scoped.key);
+  const invalid = await issueToken({
+    prompts: [{ promptId, versions: ['nope'] }],
+  });
+  const tooLong = await issueToken({
+    prompts: [{ promptId }],
+    expiresIn: 3600,
+  });
+  const ok = await issueToken({ prompts: [{ promptId }], expiresIn: 120 });
+
+  expect(outside.status).toBe(403);
+  expect(((await outside.json()) as ErrorResponse).code).toBe('FORBIDDEN');
+  expect(invalid.status).toBe(400);
+  expect(tooLong.status).toBe(400);
+  expect(ok.headers.get('Cache-Control')).toBe('no-store');
+  const issued = (await ok.json()) as TokenResponse;
+  expect(issued).toMatchObject({
+    tokenType: 'Bearer',
+    expiresIn: 120,
+    expiresAt: new Date(Date.now() + 120_000).toISOString(),
+  });
+
+  // Tokens can't mint more tokens
+  const minted = await issueToken({ prompts: [{ promptId }] }, issued.token);
+  expect(minted.status).toBe(403);
+  expect(((await minted.json()) as ErrorResponse).code).toBe(
+    'TOKEN_OUT_OF_SCOPE',
+  );
+});
+
+test('client tokens read their prompts without an API key lookup', async () => {
+  h.env.TOKEN_SECRET = TOKEN_SECRET;
+  const { promptId } = seedPrompt();
+  h.fixtures.prompt(orgId, { id: 'other' });
+  h.fixtures.version('other', '1.0.0');
+  const issuer = await h.fixtures.apiKey(orgId);
+  const token = await tokenFor(
+    { prompts: [{ promptId, versions: ['^1.0.0'] }] },
+    issuer.key,
+  );
+  const as = (method: string, path: string, body?: unknown) =>
+    h.request(method, path, { key: token, body });
+  const code = async (response: Response) => [
+    response.status,
+    ((await response.json()) as ErrorResponse).code,
+  ];
+
+  h.evictMemoryCache();
+  h.queries.length = 0;
+  const pinned = await as('GET', `/prompts/${promptId}?version=1.1.0`);
+  const apiKeyReads = countQueries('FROM apikey');
+  h.clock.advance(1000);
+  const batch = await as('POST', '/prompts/batch', {
+    prompts: [{ promptId, version: '1.0.0' }, { promptId: 'other' }],
+  });
+
+  expect(pinned.status).toBe(200);
+  expect(apiKeyReads).toBe(0);
+  expect(
+    ((await batch.json()) as BatchResponse).results.map((r) => r.status),
+  ).toEqual([200, 403]);
+  expect(await code(await as('GET', `/prompts/${promptId}`))).toEqual([
+    403,
+    'TOKEN_OUT_OF_SCOPE',
+  ]);
+  expect(await code(await as('GET', '/prompts/other'))).toEqual([
+    403,
+    'TOKEN_OUT_OF_SCOPE',
+  ]);
+  expect(await code(await as('GET', '/prompts'))).toEqual([
+    403,
+    'TOKEN_OUT_OF_SCOPE',
+  ]);
+
+  // Usage is billed to the issuing organization and key
+  expect(
+    h.db
+      .query(
+        'SELECT apikey_id, version, count FROM api_usage_breakdown ORDER BY version',
+      )
+      .all(),
+  ).toEqual([
+    { apikey_id: issuer.id, version: '1.0.0', count: 1 },
+    { apikey_id: issuer.id, version: '1.1.0', count: 1 },
+  ]);
+  expect(usageRows()[0]).toEqual({ period: '2026-03', count: 2 });
+});
+
+test("client tokens follow their issuing key's and organization's access policy", async () => {
+  h.env.TOKEN_SECRET = TOKEN_SECRET;
+  const locked = h.fixtures.organization({
+    metadata: {
+      allowedOrigins: ['https://app.example.com'],
+      allowedIps: ['10.0.0.0/8'],
+    },
+  }).id;
+  const issuer = await h.fixtures.apiKey(locked, {
+    metadata: { allowedIps: ['10.2.0.0/16'] },
+  });
+  h.fixtures.prompt(locked, { id: 'locked-prompt' });
+  h.fixtures.version('locked-prompt', '1.0.0');
+  const browser = {
+    Origin: 'https://app.example.com',
+    'CF-Connecting-IP': '10.2.3.4',
+  };
+  const issued = await h.request('POST', '/tokens', {
+    key: issuer.key,
+    body: { prompts: [{ promptId: 'locked-prompt' }] },
+    headers: browser,
+  });
+  const { token } = (await issued.json()) as TokenResponse;
+  const from = (headers: Record<string, string>) =>
+    h.request('GET', '/prompts/locked-prompt', { key: token, headers });
+
+  const allowed = await from(browser);
+  const otherOrigin = await from({
+    ...browser,
+    Origin: 'https://evil.example',
+  });
+  const otherIp = await from({ ...browser, 'CF-Connecting-IP': '192.0.2.1' });
+  // Allowed by the organization, but not by the issuing key
+  const keyIp = await from({ ...browser, 'CF-Connecting-IP': '10.9.9.9' });
+
+  expect(allowed.status).toBe(200);
+  expect(allowed.headers.get('Access-Control-Allow-Origin')).toBe(
+    'https://app.example.com',
+  );
+  expect(otherOrigin.status).toBe(403);
+  expect(((await otherOrigin.json()) as ErrorResponse).code).toBe(
+    'ORIGIN_NOT_ALLOWED',
+  );
+  expect(otherOrigin.headers.get('Access-Control-Allow-Origin')).toBeNull();
+  expect(((await otherIp.json()) as ErrorResponse).code).toBe('IP_NOT_ALLOWED');
+  expect(((await keyIp.json()) as ErrorResponse).code).toBe('IP_NOT_ALLOWED');
+});
+
+test('client tokens stop working with their issuing key', async () => {
+  h.env.TOKEN_SECRET = TOKEN_SECRET;
+  const { promptId } = seedPrompt();
+  const revoked = await h.fixtures.apiKey(orgId);
+  const disabled = await h.fixtures.apiKey(orgId);
+  const revokedToken = await tokenFor({ prompts: [{ promptId }] }, revoked.key);
+  const disabledToken = await tokenFor(
+    { prompts: [{ promptId }] },
+    disabled.key,
+  );
+  const code = async (token: string) => {
+    const response = await h.request('GET', `/prompts/${promptId}`, {
+      key: token,
+    });
+    return [response.status, ((await response.json()) as ErrorResponse).code];
+  };
+
+  await revokeApiKeys(h.env, { keyHashes: [await hashKey(revoked.key)] });
+  h.db.run('UPDATE apikey SET enabled = 0 WHERE id = ?', [disabled.id]);
+  await invalidateCache(h.env, [
+    { type: 'apikey.updated', keyHash: await hashKey(disabled.key) },
+  ]);
+
+  expect(await code(revokedToken)).toEqual([401, 'REVOKED']);
+  expect(await code(disabledToken)).toEqual([401, 'DISABLED']);
+});
+
+test('expired and forged tokens are rejected with their own codes', async () => {
+  h.env.TOKEN_SECRET = TOKEN_SECRET;
+  const { promptId } = seedPrompt();
+  const token = await tokenFor({ prompts: [{ promptId }], expiresIn: 60 });
+  const [header, payload] = token.split('.');
+  const forged = `${header}.${payload}.${'A'.repeat(43)}`;
+  const code = async (credential: string) => {
+    const response = await h.request('GET', `/prompts/${promptId}`, {
+      key: credential,
+    });
+    return [response.status, ((await response.json()) as ErrorResponse).code];
+  };
+
+  expect(await code(forged)).toEqual([401, 'INVALID_TOKEN_SIGNATURE']);
+  h.env.TOKEN_SECRET = 'rotated-secret';
+  expect(await code(token)).toEqual([401, 'INVALID_TOKEN_SIGNATURE']);
+
+  h.env.TOKEN_SECRET = TOKEN_SECRET;
+  h.clock.advance(60_000);
+  expect(await code(token)).toEqual([401, 'TOKEN_EXPIRED']);
+});
+
+// Version selection
+
+test('resolves pins, ranges and labels, ignoring drafts', async () => {
+  const { promptId, v110 } = seedPrompt();
+  h.fixtures.label(promptId, 'production', v110);
+
+  const version = async (query: string) =>
+    (
+      (await (
+        await get(`/prompts/${promptId}${query}`)
+      ).json()) as PromptResponse
+    ).version;
+
+  expect(await version('')).toBe('2.0.0');
+  expect(await version('?version=1.0.0')).toBe('1.0.0');
+  expect(await version('?version=^1.0.0')).toBe('1.1.0');
+  expect(await version('?label=production')).toBe('1.1.0');
+});
+
+test('pinned versions are cached longer than moving ones, but not forever', async () => {
+  const { promptId } = seedPrompt();
+
+  const pinned = await get(`/prompts/${promptId}?version=1.0.0`);
+  const latest = await get(`/prompts/${promptId}`);
+  const range = await get(`/prompts/${promptId}?version=^1.0.0`);
+
+  expect(pinned.headers.get('Cache-Control')).toBe('private, max-age=300');
+  expect(latest.headers.get('Cache-Control')).toBe('private, max-age=60');
+  expect(range.headers.get('Cache-Control')).toBe('private, max-age=60');
+});
+
+test('reports missing versions, labels and prompts', async () => {
+  const { promptId } = seedPrompt();
+  const otherOrg = h.fixtures.organization().id;
+  const foreign = h.fixtures.prompt(otherOrg);
+  h.fixtures.version(foreign.id, '1.0.0');
+  const deleted = h.fixtures.prompt(orgId, { deletedAt: h.clock.now() });
+  h.fixtures.version(deleted.id, '1.0.0');
+
+  const code = async (path: string) => {
+    const response = await get(path);
+    return [response.status, ((await response.json()) as ErrorResponse).code];
+  };
+
+  expect(await code(`/prompts/${promptId}?version=3.0.0`)).toEqual([
+    404,
+    'VERSION_NOT_FOUND',
+  ]);
+  expect(await code(`/prompts/${promptId}?label=staging`)).toEqual([
+    404,
+    'LABEL_NOT_FOUND',
+  ]);
+  expect(await code(`/prompts/${foreign.id}`)).toEqual([404, 'NOT_FOUND']);
+  expect(await code(`/prompts/${deleted.id}`)).toEqual([404, 'NOT_FOUND']);
+  expect(await code('/prompts/missing')).toEqual([404, 'NOT_FOUND']);
+});
+
+// Usage limits
+
+test('successful calls are counted per month and per day', async () => {
+  const { promptId } = seedPrompt();
+
+  await get(`/prompts/${promptId}`);
+  await h.request('POST', `/prompts/${promptId}/render`, { key, body: {} });
+  await get('/prompts/missing');
+
+  expect(usageRows()).toEqual([
+    { period: '2026-03', count: 2 },
+    { period: '2026-03-15', count: 2 },
+  ]);
+});
+
+test('304s and HEAD requests are not counted', async () => {
+  const { promptId } = seedPrompt();
+  const first = await get(`/prompts/${promptId}`);
+  const etag = first.headers.get('ETag') as string;
+
+  const notModified = await get(`/prompts/${promptId}`, {
+    'If-None-Match': etag,
+  });
+  await h.request('HEAD', `/prompts/${promptId}`, { key });
+
+  expect(notModified.status).toBe(304);
+  expect(usageRows()[0]?.count).toBe(1);
+});
+
+test('returns 429 USAGE_LIMIT_EXCEEDED once the monthly quota is used', async () => {
+  const { promptId } = seedPrompt();
+  h.fixtures.usage(orgId, '2026-03', 5000);
+
+  const response = await get(`/prompts/${promptId}`);
+  const body = (await response.json()) as RateLimitResponse;
+
+  expect(response.status).toBe(429);
+  expect(body.code).toBe('USAGE_LIMIT_EXCEEDED');
+  expect(body.usage).toEqual({
+    limit: 5000,
+    used: 5000,
+    remaining: 0,
+    resetAt: '2026-04-01T00:00:00.000Z',
+  });
+  // Seconds from mid-day on the 15th to April 1st
+  expect(response.headers.get('Retry-After')).toBe(String(16.5 * 86400));
+
+  // Usage reports stay available
+  expect((await get('/usage')).status).toBe(200);
+});
+
+test('paid plans get their own quota and the next month starts fresh', async () => {
+  const proOrg = h.fixtures.organization({ plan: 'pro' }).id;
+  const proKey = await h.fixtures.apiKey(proOrg);
+  h.fixtures.usage(proOrg, '2026-03', 5000);
+  h.fixtures.usage(orgId, '2026-03', 5000);
+
+  expect((await h.request('GET', '/prompts', { key: proKey.key })).status).toBe(
+    200,
+  );
+  expect((await get('/prompts')).status).toBe(429);
+
+  h.clock.set('2026-04-01T00:01:00.000Z');
+  expect((await get('/prompts')).status).toBe(200);
+});
+
+// Burst limits
+
+test('bursts over the per-key limit get 429 RATE_LIMITED', async () => {
+  const statuses: number[] = [];
+  for (let i = 0; i < 6; i++) {
+    statuses.push((await get('/prompts')).status);
+  }
+  const limited = await get('/prompts');
+
+  expect(statuses).toEqual([200, 200, 200, 200, 200, 429]);
+  expect(((await limited.json()) as ErrorResponse).code).toBe('RATE_LIMITED');
+  expect(limited.headers.get('Retry-After')).toBe('1');
+  expect(limited.headers.get('X-RateLimit-Burst-Scope')).toBe('key');
+
+  // Rejected calls are free
+  expect(usageRows()[0]?.count).toBe(5);
+
+  h.clock.advance(2000);
+  expect((await get('/prompts')).status).toBe(200);
+});
+
+// Batch
+
+test('batches return per-prompt results and count each prompt served', async () => {
+  const { promptId } = seedPrompt();
+
+  const response = await h.request('POST', '/prompts/batch', {
+    key,
+    body: {
+      prompts: [
+        { promptId },
+        { promptId, version: '1.0.0' },
+        { promptId: 'missing' },
+      ],
+    },
+  });
+  const { results } = (await response.json()) as BatchResponse;
+
+  expect(response.status).toBe(200);
+  expect(results.map((result) => result.status)).toEqual([200, 200, 404]);
+  expect(usageRows()[0]?.count).toBe(2);
+});
+
+test('failed batch items leave the quota to the items served', async () => {
+  const { promptId } = seedPrompt();
+  h.fixtures.usage(orgId, '2026-03', 4999);
+
+  const response = await h.request('POST', '/prompts/batch', {
+    key,
+    body: {
+      prompts: [
+        { promptId: 'missing' },
+        { promptId },
+        { promptId, version: '1.0.0' },
+      ],
+    },
+  });
+  const { results } = (await response.json()) as BatchResponse;
+
+  // One call left: the 404 is free, so the first prompt served gets it
+  expect(results.map((result) => result.status)).toEqual([404, 200, 429]);
+  expect(usageRows()[0]?.count).toBe(5000);
+});
+
+// Tracing
+
+test('propagates X-Request-Id, or generates one', async () => {
+  const propagated = await get('/prompts', { 'X-Request-Id': 'trace-123' });
+  const generated = await get('/prompts');
+  const unsafe = await get('/prompts', { 'X-Request-Id': 'bad id\n' });
+
+  expect(propagated.headers.get('X-Request-Id')).toBe('trace-123');
+  expect(generated.headers.get('X-Request-Id')).toMatch(/^[0-9a-f-]{36}$/);
+  expect(unsafe.headers.get('X-Request-Id')).not.toBe('bad id\n');
+});
+
+test('error bodies carry the request ID', async () => {
+  const response = await get('/prompts/missing', { 'X-Request-Id': 'r-1' });
+
+  expect((await response.json()) as ErrorResponse).toEqual({
+    error: 'Prompt not found',
+    code: 'NOT_FOUND',
+    requestId: 'r-1',
+  });
+});
+
+test('Server-Timing shows which tiers served the request', async () => {
+  const { promptId } = seedPrompt();
+
+  const cold = await get(`/prompts/${promptId}`);
+  const warm = await get(`/prompts/${promptId}`);
+  const coldTiming = cold.headers.get('Server-Timing') ?? '';
+  const warmTiming = warm.headers.get('Server-Timing') ?? '';
+
+  expect(coldTiming).toContain('l2;desc="prompt miss"');
+  expect(coldTiming).toContain('d1;desc="version"');
+  expect(coldTiming).toContain('l2;desc="version put"');
+  expect(coldTiming).toContain('do;desc="revocation"');
+  expect(warmTiming).toContain('do;desc="ratelimit"');
+  expect(coldTiming).toMatch(/total;dur=[\d.]+$/);
+  expect(warmTiming).toContain('l1;desc="prompt hit"');
+  expect(warmTiming).not.toContain('d1;');
+  // Cache keys of API keys are hashes of the secret; only the namespace shows
+  expect(coldTiming).not.toMatch(/apikey:/);
+});
+
+test('logs one line per request with its spans', async () => {
+  const { promptId } = seedPrompt();
+  const log = spyOn(console, 'log').mockImplementation(() => {});
+  let lines: { event: string; spans: { layer: string }[] }[];
+  try {
+    await get(`/prompts/${promptId}`, { 'X-Request-Id': 'r-2' });
+    lines = log.mock.calls.map(([line]) => JSON.parse(String(line)));
+  } finally {
+    log.mockRestore();
+  }
+
+  const requests = lines.filter((line) => line.event === 'request');
+  expect(requests).toHaveLength(1);
+  expect(requests[0]).toMatchObject({
+    requestId: 'r-2',
+    method: 'GET',
+    route: '/prompts/:promptId',
+    status: 200,
+    organizationId: orgId,
+    keyId: 'key-1',
+  });
+  expect(requests[0]?.spans.map((span) => span.layer)).toContain('d1');
+  expect(lines.find((line) => line.event === 'usage_increment')).toMatchObject({
+    requestId: 'r-2',
+  });
+});
+
+test('rate limit logs carry the request ID', async () => {
+  for (let i = 0; i < 5; i++) {
+    await get('/prompts');
+  }
+  const log = spyOn(console, 'log').mockImplementation(() => {});
+  let lines: { event: string }[];
+  try {
+    await get('/prompts', { 'X-Request-Id': 'r-3' });
+    lines = log.mock.calls.map(([line]) => JSON.parse(String(line)));
+  } finally {
+    log.mockRestore();
+  }
+
+  expect(lines.find((line) => line.event === 'rate_limited')).toMatchObject({
+    requestId: 'r-3',
+    scope: 'key',
+  });
+});
+
+// Metrics
+
+const scrape = (token: string) =>
+  h.request('GET', '/internal/metrics', {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+
+test('the metrics endpoint needs METRICS_TOKEN', async () => {
+  expect((await scrape('anything')).status).toBe(404);
+
+  h.env.METRICS_TOKEN = 'scrape-token';
+  const rejected = await scrape('wrong');
+  const ok = await scrape('scrape-token');
+
+  expect(rejected.status).toBe(401);
+  expect(((await rejected.json()) as ErrorResponse).code).toBe('UNAUTHORIZED');
+  expect(ok.status).toBe(200);
+  expect(ok.headers.get('Content-Type')).toStartWith('text/plain');
+  expect(ok.headers.get('Cache-Control')).toBe('no-store');
+});
+
+test('counts cache lookups, D1 queries and responses per route', async () => {
+  const { promptId } = seedPrompt();
+  h.env.METRICS_TOKEN = 'scrape-token';
+
+  await get(`/prompts/${promptId}`);
+  await get(`/prompts/${promptId}`);
+  await get('/nowhere');
+  const text = await (await scrape('scrape-token')).text();
+
+  expect(text).toContain('# TYPE promptly_cache_lookups_total counter');
+  expect(text).toContain(
+    'promptly_cache_lookups_total{layer="l1",type="prompt",outcome="miss"} 1',
+  );
+  expect(text).toContain(
+    'promptly_cache_lookups_total{layer="l1",type="prompt",outcome="hit"} 1',
+  );
+  expect(text).toContain(
+    'promptly_cache_lookups_total{layer="l2",type="version",outcome="miss"} 1',
+  );
+  expect(text).toContain(
+    'promptly_d1_query_duration_ms_count{statement="version"} 1',
+  );
+  expect(text).toContain(
+    'promptly_do_call_duration_ms_count{object="ratelimit"} 2',
+  );
+  expect(text).toContain(
+    'promptly_responses_total{route="/prompts/:promptId",status="200"} 2',
+  );
+  expect(text).toContain(
+    'promptly_responses_total{route="unmatched",status="404"} 1',
+  );
+  expect(text).toContain('# TYPE promptly_memory_cache_entries gauge');
+  expect(text).toMatch(/^promptly_memory_cache_hits_total [1-9]\d*$/m);
+});
+
+test('writes the same observations to Analytics Engine', async () => {
+  const { promptId } = seedPrompt();
+
+  await get(`/prompts/${promptId}`);
+
+  expect(h.metricPoints).toContainEqual({
+    indexes: ['promptly_responses_total'],
+    blobs: ['promptly_responses_total', '/prompts/:promptId', '200'],
+    doubles: [1],
+  });
+  expect(h.metricPoints).toContainEqual(
+    expect.objectContaining({
+      blobs: ['promptly_d1_query_duration_ms', 'version'],
+    }),
+  );
+});
+
+test('counts 429s per plan and code', async () => {
+  h.env.METRICS_TOKEN = 'scrape-token';
+  h.fixtures.usage(orgId, '2026-03', 5000);
+
+  await get('/prompts');
+  await h.request('HEAD', '/prompts', { key });
+  const text = await (await scrape('scrape-token')).text();
+
+  expect(text).toContain(
+    'promptly_rate_limited_total{plan="free",code="USAGE_LIMIT_EXCEEDED"} 2',
+  );
+});
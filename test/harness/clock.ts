@@ -0,0 +1,31 @@
+import { setSystemTime } from 'bun:test';
+
+// Mid-month, mid-day: far from period and window boundaries
+export const DEFAULT_TIME = '2026-03-15T12:00:00.000Z';
+
+/**
+ * Freeze Date at a fixed time that tests move explicitly. Drives key
+ * expiry, cache TTLs, usage periods and rate-limit windows alike.
+ */
+export const createClock = (start: string | Date = DEFAULT_TIME) => {
+  let now = new Date(start).getTime();
+  setSystemTime(new Date(now));
+
+  return {
+    now: () => now,
+    set(time: string | Date) {
+      now = new Date(time).getTime();
+      setSystemTime(new Date(now));
+    },
+    advance(ms: number) {
+      now += ms;
+      setSystemTime(new Date(now));
+    },
+    /** Hand Date back to the real clock */
+    restore() {
+      setSystemTime();
+    },
+  };
+};
+
+export type Clock = ReturnType<typeof createClock>;
@@ -0,0 +1,144 @@
+import { Database, type SQLQueryBindings } from 'bun:sqlite';
+
+/**
+ * The tables the worker reads and writes, as in the CMS database
+ */
+const SCHEMA = `
+  CREATE TABLE organization (id TEXT PRIMARY KEY, name TEXT NOT NULL, metadata TEXT);
+  CREATE TABLE member (user_id TEXT NOT NULL, organization_id TEXT NOT NULL);
+  CREATE TABLE apikey (
+    id TEXT PRIMARY KEY,
+    key TEXT NOT NULL UNIQUE,
+    user_id TEXT NOT NULL,
+    permissions TEXT,
+    enabled INTEGER NOT NULL DEFAULT 1,
+    expires_at INTEGER,
+    metadata TEXT
+  );
+  CREATE TABLE subscription (organization_id TEXT NOT NULL, plan TEXT NOT NULL, status TEXT NOT NULL);
+  CREATE TABLE prompt (
+    id TEXT PRIMARY KEY,
+    organization_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    description TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    deleted_at INTEGER
+  );
+  CREATE TABLE prompt_version (
+    id TEXT PRIMARY KEY,
+    prompt_id TEXT NOT NULL,
+    major INTEGER,
+    minor INTEGER,
+    patch INTEGER,
+    system_message TEXT,
+    user_message TEXT,
+    config TEXT NOT NULL DEFAULT '{}',
+    published_at INTEGER
+  );
+  CREATE TABLE prompt_label (prompt_id TEXT NOT NULL, name TEXT NOT NULL, prompt_version_id TEXT NOT NULL, PRIMARY KEY (prompt_id, name));
+  CREATE TABLE api_usage (
+    organization_id TEXT NOT NULL,
+    period TEXT NOT NULL,
+    count INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    PRIMARY KEY (organization_id, period)
+  );
+  CREATE TABLE api_usage_breakdown (
+    organization_id TEXT NOT NULL,
+    period TEXT NOT NULL,
+    apikey_id TEXT NOT NULL,
+    prompt_id TEXT NOT NULL,
+    version TEXT NOT NULL,
+    count INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    PRIMARY KEY (organization_id, period, apikey_id, prompt_id, version)
+  );
+`;
+
+type Statement = {
+  sql: string;
+  params: SQLQueryBindings[];
+};
+
+/**
+ * SQLite-backed D1Database. Every statement the worker runs is recorded in
+ * `queries`, so tests can assert which requests reached the database.
+ * `setLatency` makes each call wait on a timer first, so concurrent
+ * requests overlap the way they would against the real network.
+ */
+export const createD1 = () => {
+  const db = new Database(':memory:', { strict: true });
+  db.run(SCHEMA);
+  const queries: string[] = [];
+  let latencyMs = 0;
+  const roundTrip = () => (latencyMs > 0 ? Bun.sleep(latencyMs) : undefined);
+
+  const execute = ({ sql }: Statement) => {
+    queries.push(sql);
+    return db.query(sql);
+  };
+
+  const run = (statement: Statement) => {
+    const { changes, lastInsertRowid } = execute(statement).run(
+      ...statement.params,
+    );
+    return {
+      success: true,
+      results: [],
+      meta: { changes, last_row_id: Number(lastInsertRowid) },
+    };
+  };
+
+  const prepare = (sql: string, params: SQLQueryBindings[] = []) => {
+    const statement: Statement = { sql, params };
+    return {
+      ...statement,
+      bind: (...values: SQLQueryBindings[]) => prepare(sql, values),
+      first: async (column?: string) => {
+        await roundTrip();
+        const row = execute(statement).get(...params) as Record<
+          string,
+          unknown
+        > | null;
+        return column && row ? row[column] : row;
+      },
+      all: async () => {
+        await roundTrip();
+        return {
+          success: true,
+          results: execute(statement).all(...params),
+          meta: {},
+        };
+      },
+      raw: async () => {
+        await roundTrip();
+        return execute(statement).values(...params);
+      },
+      run: async () => {
+        await roundTrip();
+        return run(statement);
+      },
+    };
+  };
+
+  const d1 = {
+    prepare: (sql: string) => prepare(sql),
+    // D1 runs a batch as one transaction
+    batch: async (statements: Statement[]) => {
+      await roundTrip();
+      return db.transaction(() => statements.map(run))();
+    },
+  };
+
+  return {
+    db,
+    queries,
+    d1: d1 as unknown as D1Database,
+    setLatency: (ms: number) => {
+      latencyMs = ms;
+    },
+  };
+};
@@ -0,0 +1,185 @@
+import type { Database } from 'bun:sqlite';
+import type { AccessPolicy, PermissionsObject, Plan } from '../../src/types.ts';
+
+type OrganizationOptions = {
+  id?: string;
+  plan?: Plan;
+  status?: string;
+  metadata?: AccessPolicy | null;
+};
+
+type ApiKeyOptions = {
+  id?: string;
+  key?: string;
+  permissions?: PermissionsObject | null;
+  enabled?: boolean;
+  expiresAt?: number | null;
+  metadata?: AccessPolicy | null;
+};
+
+type PromptOptions = {
+  id?: string;
+  name?: string;
+  description?: string | null;
+  deletedAt?: number | null;
+};
+
+type VersionOptions = {
+  id?: string;
+  systemMessage?: string | null;
+  userMessage?: string | null;
+  config?: Record<string, unknown>;
+  publishedAt?: number | null;
+};
+
+/**
+ * Hash a key the way Better Auth stores it (SHA-256, base64url)
+ */
+export const hashKey = async (key: string): Promise<string> => {
+  const hash = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(key),
+  );
+  return btoa(String.fromCharCode(...new Uint8Array(hash)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+};
+
+/**
+ * Builders for CMS rows. Ids default to readable sequential values
+ * (org-1, key-1, prompt-1, ...) and every option has a working default.
+ */
+export const createFixtures = (db: Database) => {
+  const counters = new Map<string, number>();
+  const nextId = (prefix: string) => {
+    const next = (counters.get(prefix) ?? 0) + 1;
+    counters.set(prefix, next);
+    return `${prefix}-${next}`;
+  };
+
+  const organization = ({
+    id = nextId('org'),
+    plan,
+    status = 'active',
+    metadata = null,
+  }: OrganizationOptions = {}) => {
+    db.run('INSERT INTO organization VALUES (?, ?, ?)', [
+      id,
+      `Organization ${id}`,
+      metadata ? JSON.stringify(metadata) : null,
+    ]);
+    // No subscription row means the free plan
+    if (plan) {
+      db.run('INSERT INTO subscription VALUES (?, ?, ?)', [id, plan, status]);
+    }
+    return { id };
+  };
+
+  const apiKey = async (
+    organizationId: string,
+    {
+      id = nextId('key'),
+      key = `secret-${id}`,
+      permissions = { prompt: ['read'] },
+      enabled = true,
+      expiresAt = null,
+      metadata = null,
+    }: ApiKeyOptions = {},
+  ) => {
+    const userId = nextId('user');
+    db.run('INSERT INTO member VALUES (?, ?)', [userId, organizationId]);
+    db.run('INSERT INTO apikey VALUES (?, ?, ?, ?, ?, ?, ?)', [
+      id,
+      await hashKey(key),
+      userId,
+      permissions ? JSON.stringify(permissions) : null,
+      enabled ? 1 : 0,
+      expiresAt,
+      metadata ? JSON.stringify(metadata) : null,
+    ]);
+    return { id, key, userId };
+  };
+
+  const prompt = (
+    organizationId: string,
+    {
+      id = nextId('prompt'),
+      name = `Prompt ${id}`,
+      description = null,
+      deletedAt = null,
+    }: PromptOptions = {},
+  ) => {
+    const now = Date.now();
+    db.run('INSERT INTO prompt VALUES (?, ?, ?, ?, ?, ?, ?)', [
+      id,
+      organizationId,
+      name,
+      description,
+      now,
+      now,
+      deletedAt,
+    ]);
+    return { id };
+  };
+
+  /**
+   * Add a version to a prompt; pass null for an unpublished draft
+   */
+  const version = (
+    promptId: string,
+    semver: string | null,
+    {
+      id = nextId('pv'),
+      systemMessage = 'You are a helpful assistant.',
+      userMessage = 'Hello',
+      config = {},
+      publishedAt = Date.now(),
+    }: VersionOptions = {},
+  ) => {
+    const [major = null, minor = null, patch = null] = semver
+      ? semver.split('.').map(Number)
+      : [];
+    db.run('INSERT INTO prompt_version VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)', [
+      id,
+      promptId,
+      major,
+      minor,
+      patch,
+      systemMessage,
+      userMessage,
+      JSON.stringify(config),
+      semver ? publishedAt : null,
+    ]);
+    return { id };
+  };
+
+  /**
+   * Point a release label at a version (moving it if it exists)
+   */
+  const label = (promptId: string, name: string, versionId: string) => {
+    db.run('INSERT OR REPLACE INTO prompt_label VALUES (?, ?, ?)', [
+      promptId,
+      name,
+      versionId,
+    ]);
+  };
+
+  /**
+   * Set an organization's call count for a period (YYYY-MM or YYYY-MM-DD)
+   */
+  const usage = (organizationId: string, period: string, count: number) => {
+    const now = Date.now();
+    db.run('INSERT OR REPLACE INTO api_usage VALUES (?, ?, ?, ?, ?)', [
+      organizationId,
+      period,
+      count,
+      now,
+      now,
+    ]);
+  };
+
+  return { organization, apiKey, prompt, version, label, usage };
+};
+
+export type Fixtures = ReturnType<typeof createFixtures>;
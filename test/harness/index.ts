@@ -0,0 +1,176 @@
+/**
+ * Offline integration harness
+ *
+ * Runs the real handleRequest against a SQLite-backed D1, an in-memory KV,
+ * in-memory RATE_LIMITER and REVOCATIONS namespaces, a recording METRICS
+ * dataset and a frozen clock. Each harness starts from empty tables, caches and metrics;
+ * call close() after each test.
+ */
+import { handleRequest } from '../../src/handler.ts';
+import { memoryCache } from '../../src/memory-cache.ts';
+import { isolateMetrics } from '../../src/metrics.ts';
+import { consumeWindows } from '../../src/rate-limit.ts';
+import type {
+  Env,
+  RateLimitRule,
+  RateLimitWindow,
+  RevocationEntry,
+} from '../../src/types.ts';
+import { createClock } from './clock.ts';
+import { createD1 } from './d1.ts';
+import { createFixtures } from './fixtures.ts';
+import { createKV } from './kv.ts';
+
+export { DEFAULT_TIME } from './clock.ts';
+export { hashKey } from './fixtures.ts';
+
+export const BASE_URL = 'https://api.test';
+
+type RequestOptions = {
+  /** Sent as a Bearer token */
+  key?: string;
+  body?: unknown;
+  headers?: Record<string, string>;
+};
+
+/**
+ * RATE_LIMITER stand-in: one window map per Durable Object name, counted
+ * with the same consumeWindows the real RateLimitCounter uses
+ */
+const createRateLimiter = () => {
+  const objects = new Map<string, Map<string, RateLimitWindow>>();
+  const windowsFor = (name: string) => {
+    const windows = objects.get(name) ?? new Map<string, RateLimitWindow>();
+    objects.set(name, windows);
+    return windows;
+  };
+
+  return {
+    idFromName: (name: string) => name,
+    get: (name: string) => ({
+      consume: async (rules: RateLimitRule[]) =>
+        consumeWindows(windowsFor(name), rules, Date.now()),
+    }),
+  } as unknown as NonNullable<Env['RATE_LIMITER']>;
+};
+
+/**
+ * REVOCATIONS stand-in: one map of revoked hashes per Durable Object name,
+ * with the names recorded so tests can see how lookups are sharded
+ */
+const createRevocations = () => {
+  const objects = new Map<string, Map<string, RevocationEntry>>();
+  const entriesFor = (name: string) => {
+    const entries = objects.get(name) ?? new Map<string, RevocationEntry>();
+    objects.set(name, entries);
+    return entries;
+  };
+
+  const namespace = {
+    idFromName: (name: string) => name,
+    get: (name: string) => ({
+      isRevoked: async (keyHash: string) => entriesFor(name).has(keyHash),
+      revoke: async (keyHashes: string[], entry: RevocationEntry) => {
+        for (const hash of keyHashes) {
+          entriesFor(name).set(hash, entry);
+        }
+      },
+    }),
+  } as unknown as NonNullable<Env['REVOCATIONS']>;
+  return { namespace, objects };
+};
+
+/**
+ * METRICS stand-in: records every data point written
+ */
+const createAnalyticsEngine = () => {
+  const points: AnalyticsEngineDataPoint[] = [];
+  const dataset: AnalyticsEngineDataset = {
+    writeDataPoint: (point) => {
+      if (point) {
+        points.push(point);
+      }
+    },
+  };
+  return { dataset, points };
+};
+
+export const createHarness = (envOverrides: Partial<Env> = {}) => {
+  memoryCache.clear();
+  isolateMetrics.reset();
+  const clock = createClock();
+  const { db, d1, queries, setLatency } = createD1();
+  const { kv, keys } = createKV();
+  const analytics = createAnalyticsEngine();
+  const revocations = createRevocations();
+  const env: Env = {
+    promptly: d1,
+    PROMPTS_CACHE: kv,
+    RATE_LIMITER: createRateLimiter(),
+    REVOCATIONS: revocations.namespace,
+    METRICS: analytics.dataset,
+    ...envOverrides,
+  };
+
+  /**
+   * Send a request through the worker and wait for its waitUntil tasks,
+   * so usage and cache writes have landed when this resolves
+   */
+  const request = async (
+    method: string,
+    path: string,
+    { key, body, headers = {} }: RequestOptions = {},
+  ): Promise<Response> => {
+    const tasks: Promise<unknown>[] = [];
+    const ctx = {
+      waitUntil: (task: Promise<unknown>) => {
+        tasks.push(task);
+      },
+      passThroughOnException: () => {},
+    } as unknown as ExecutionContext;
+
+    const response = await handleRequest(
+      new Request(`${BASE_URL}${path}`, {
+        method,
+        headers: {
+          ...(key ? { Authorization: `Bearer ${key}` } : {}),
+          ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+          ...headers,
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      }),
+      env,
+      ctx,
+    );
+    await Promise.all(tasks);
+    return response;
+  };
+
+  return {
+    env,
+    db,
+    clock,
+    fixtures: createFixtures(db),
+    request,
+    /** SQL run against D1 so far; clear with `queries.length = 0` */
+    queries,
+    /** Delay every D1 call by this many (real) milliseconds */
+    setD1Latency: setLatency,
+    /** Live KV keys */
+    kvKeys: keys,
+    /** Deny-list entries by REVOCATIONS object name */
+    revocations: revocations.objects,
+    /** Data points written to the METRICS dataset */
+    metricPoints: analytics.points,
+    /** Drop the in-memory (L1) tier, as a fresh isolate would */
+    evictMemoryCache: () => memoryCache.clear(),
+    close: () => {
+      clock.restore();
+      memoryCache.clear();
+      isolateMetrics.reset();
+      db.close();
+    },
+  };
+};
+
+export type Harness = ReturnType<typeof createHarness>;
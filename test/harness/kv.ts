@@ -0,0 +1,83 @@
+type KVEntry = {
+  value: string;
+  expiresAt: number | null; // unix ms
+  metadata: unknown;
+};
+
+type KVGetType = 'text' | 'json' | 'arrayBuffer' | 'stream';
+
+type KVPutOptions = {
+  expiration?: number; // unix seconds
+  expirationTtl?: number; // seconds
+  metadata?: unknown;
+};
+
+/**
+ * In-memory KVNamespace. Expiry follows Date.now(), so it moves with the
+ * test clock; unlike real KV, writes are visible immediately everywhere.
+ */
+export const createKV = () => {
+  const store = new Map<string, KVEntry>();
+
+  const read = (key: string): KVEntry | null => {
+    const entry = store.get(key);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      store.delete(key);
+      return null;
+    }
+    return entry;
+  };
+
+  const decode = (value: string, type: KVGetType | { type?: KVGetType }) => {
+    const kind = typeof type === 'string' ? type : (type.type ?? 'text');
+    return kind === 'json' ? JSON.parse(value) : value;
+  };
+
+  const kv = {
+    get: async (
+      key: string,
+      type: KVGetType | { type?: KVGetType } = 'text',
+    ) => {
+      const entry = read(key);
+      return entry ? decode(entry.value, type) : null;
+    },
+    getWithMetadata: async (
+      key: string,
+      type: KVGetType | { type?: KVGetType } = 'text',
+    ) => {
+      const entry = read(key);
+      return entry
+        ? { value: decode(entry.value, type), metadata: entry.metadata }
+        : { value: null, metadata: null };
+    },
+    put: async (key: string, value: string, options: KVPutOptions = {}) => {
+      let expiresAt: number | null = null;
+      if (options.expirationTtl !== undefined) {
+        expiresAt = Date.now() + options.expirationTtl * 1000;
+      } else if (options.expiration !== undefined) {
+        expiresAt = options.expiration * 1000;
+      }
+      store.set(key, { value, expiresAt, metadata: options.metadata ?? null });
+    },
+    delete: async (key: string) => {
+      store.delete(key);
+    },
+    list: async ({ prefix = '' }: { prefix?: string } = {}) => ({
+      keys: [...store.keys()]
+        .filter((key) => key.startsWith(prefix) && read(key))
+        .sort()
+        .map((name) => ({ name })),
+      list_complete: true,
+      cacheStatus: null,
+    }),
+  };
+
+  return {
+    kv: kv as unknown as KVNamespace,
+    /** Live keys, for asserting what was cached */
+    keys: () => [...store.keys()].filter((key) => read(key)).sort(),
+  };
+};
@@ -0,0 +1,98 @@
+/**
+ * Cache invalidation webhook tests
+ *
+ * Run with: bun test
+ */
+import { expect, test } from 'bun:test';
+import {
+  parseInvalidationEvents,
+  verifySignature,
+} from '../src/invalidate-cache.ts';
+
+const SECRET = 'test-secret';
+
+const sign = async (timestamp: string, body: string): Promise<string> => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(SECRET),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const mac = await crypto.subtle.sign(
+    'HMAC',
+    key,
+    encoder.encode(`${timestamp}.${body}`),
+  );
+  const hex = Array.from(new Uint8Array(mac), (b) =>
+    b.toString(16).padStart(2, '0'),
+  ).join('');
+  return `sha256=${hex}`;
+};
+
+const now = () => String(Math.floor(Date.now() / 1000));
+
+// Signatures
+
+test('accepts a valid signature', async () => {
+  const body = '{"events":[]}';
+  const timestamp = now();
+  const signature = await sign(timestamp, body);
+
+  expect(await verifySignature(SECRET, timestamp, body, signature)).toBe(true);
+});
+
+test('rejects a tampered body', async () => {
+  const timestamp = now();
+  const signature = await sign(timestamp, '{"events":[]}');
+
+  expect(
+    await verifySignature(SECRET, timestamp, '{"events":[1]}', signature),
+  ).toBe(false);
+});
+
+test('rejects a stale timestamp', async () => {
+  const body = '{"events":[]}';
+  const timestamp = String(Math.floor(Date.now() / 1000) - 3600);
+  const signature = await sign(timestamp, body);
+
+  expect(await verifySignature(SECRET, timestamp, body, signature)).toBe(false);
+});
+
+test('rejects missing or malformed headers', async () => {
+  const body = '{"events":[]}';
+
+  expect(await verifySignature(SECRET, null, body, 'sha256=00')).toBe(false);
+  expect(await verifySignature(SECRET, now(), body, null)).toBe(false);
+  expect(await verifySignature(SECRET, now(), body, 'sha256=zz')).toBe(false);
+});
+
+// Events
+
+test('parses valid events', () => {
+  const events = parseInvalidationEvents(
+    JSON.stringify({
+      events: [
+        { type: 'prompt.published', promptId: 'abc' },
+        { type: 'apikey.created', keyHash: 'hash' },
+        { type: 'apikey.revoked', keyHash: 'hash' },
+        { type: 'plan.changed', organizationId: 'org' },
+        { type: 'organization.updated', organizationId: 'org' },
+      ],
+    }),
+  );
+
+  expect(events).toHaveLength(5);
+});
+
+test('rejects unknown or incomplete events', () => {
+  expect(parseInvalidationEvents('not json')).toBeNull();
+  expect(parseInvalidationEvents('{"events":[]}')).toBeNull();
+  expect(
+    parseInvalidationEvents('{"events":[{"type":"prompt.published"}]}'),
+  ).toBeNull();
+  expect(
+    parseInvalidationEvents('{"events":[{"type":"nope","promptId":"a"}]}'),
+  ).toBeNull();
+});
@@ -0,0 +1,96 @@
+/**
+ * In-memory (L1) cache tests
+ *
+ * Run with: bun test
+ */
+import { afterEach, beforeEach, expect, test } from 'bun:test';
+import { createMemoryCache } from '../src/memory-cache.ts';
+import { type Clock, createClock } from './harness/clock.ts';
+
+let clock: Clock;
+
+beforeEach(() => {
+  clock = createClock();
+});
+
+afterEach(() => {
+  clock.restore();
+});
+
+// Limits
+
+test('evicts the least recently used entry past maxEntries', () => {
+  const cache = createMemoryCache({ maxEntries: 2 });
+  cache.set('a', 1, 60);
+  cache.set('b', 2, 60);
+  cache.get('a');
+  cache.set('c', 3, 60);
+
+  expect(cache.get<number>('a')).toBe(1);
+  expect(cache.get('b')).toBeNull();
+  expect(cache.get<number>('c')).toBe(3);
+  expect(cache.stats()).toMatchObject({ entries: 2, evictions: 1 });
+});
+
+test('evicts to stay within the byte budget and skips oversized values', () => {
+  // Each entry is ('k1' + '"xxxxxxxx"') * 2 = 24 bytes
+  const cache = createMemoryCache({ maxBytes: 60 });
+  cache.set('k1', 'xxxxxxxx', 60);
+  cache.set('k2', 'xxxxxxxx', 60);
+  cache.set('k3', 'xxxxxxxx', 60);
+
+  expect(cache.get('k1')).toBeNull();
+  expect(cache.stats()).toMatchObject({ entries: 2, bytes: 48 });
+
+  cache.set('big', 'x'.repeat(100), 60);
+  expect(cache.get('big')).toBeNull();
+  expect(cache.stats()).toMatchObject({ entries: 2, evictions: 1 });
+});
+
+test('replacing a key updates its size instead of adding to it', () => {
+  const cache = createMemoryCache();
+  cache.set('k1', 'xxxxxxxx', 60);
+  cache.set('k1', 'x', 60);
+
+  expect(cache.stats()).toMatchObject({ entries: 1, bytes: 10 });
+});
+
+// Expiry
+
+test('sweeps expired entries on writes once per interval', () => {
+  const cache = createMemoryCache({ sweepIntervalMs: 60_000 });
+  cache.set('short', 1, 10);
+  cache.set('long', 2, 600);
+
+  clock.advance(30_000);
+  cache.set('other', 3, 600);
+  expect(cache.stats().entries).toBe(3);
+
+  clock.advance(30_000);
+  cache.set('other', 3, 600);
+  expect(cache.stats()).toMatchObject({ entries: 2, expirations: 1 });
+});
+
+// Invalidation and stats
+
+test('counts hits and misses, and clear resets everything', () => {
+  const cache = createMemoryCache();
+  cache.set('prompt:1', { id: '1' }, 60);
+  cache.set('prompt:2', { id: '2' }, 60);
+  cache.set('version:1:latest', { id: 'v' }, 60);
+  cache.get('prompt:1');
+  cache.get('missing');
+  cache.deleteByPrefix('prompt:');
+  cache.delete('version:1:latest');
+
+  expect(cache.get('prompt:2')).toBeNull();
+  expect(cache.stats()).toMatchObject({
+    hits: 1,
+    misses: 2,
+    entries: 0,
+    bytes: 0,
+  });
+
+  cache.clear();
+  expect(cache.stats()).toMatchObject({ hits: 0, misses: 0, evictions: 0 });
+});
@@ -0,0 +1,82 @@
+/**
+ * Metrics registry tests
+ *
+ * Run with: bun test
+ */
+import { expect, test } from 'bun:test';
+import { createMemoryMetrics } from '../src/metrics.ts';
+import type { MetricDefinition } from '../src/types.ts';
+
+const counter: MetricDefinition = {
+  name: 'test_total',
+  type: 'counter',
+  help: 'A counter',
+  labels: ['route', 'status'],
+};
+
+const histogram: MetricDefinition = {
+  name: 'test_duration_ms',
+  type: 'histogram',
+  help: 'A histogram',
+  labels: ['statement'],
+};
+
+// Counters
+
+test('sums counter observations per label set', () => {
+  const metrics = createMemoryMetrics();
+  metrics.record(counter, ['/prompts', '200'], 1);
+  metrics.record(counter, ['/prompts', '200'], 2);
+  metrics.record(counter, ['/prompts', '404'], 1);
+
+  expect(metrics.render()).toBe(
+    [
+      '# HELP test_total A counter',
+      '# TYPE test_total counter',
+      'test_total{route="/prompts",status="200"} 3',
+      'test_total{route="/prompts",status="404"} 1',
+      '',
+    ].join('\n'),
+  );
+});
+
+test('escapes label values and starts empty after reset', () => {
+  const metrics = createMemoryMetrics();
+  metrics.record(counter, ['a"b\\c\nd', '200'], 1);
+
+  expect(metrics.render()).toContain(
+    'test_total{route="a\\"b\\\\c\\nd",status="200"} 1',
+  );
+
+  metrics.reset();
+  expect(metrics.render()).toBe('');
+});
+
+// Histograms
+
+test('renders cumulative buckets, sum and count', () => {
+  const metrics = createMemoryMetrics();
+  for (const ms of [0.5, 3, 7, 12_000]) {
+    metrics.record(histogram, ['version'], ms);
+  }
+  const lines = metrics.render().split('\n');
+
+  expect(lines).toContain('# TYPE test_duration_ms histogram');
+  expect(lines).toContain(
+    'test_duration_ms_bucket{statement="version",le="1"} 1',
+  );
+  expect(lines).toContain(
+    'test_duration_ms_bucket{statement="version",le="5"} 2',
+  );
+  expect(lines).toContain(
+    'test_duration_ms_bucket{statement="version",le="10"} 3',
+  );
+  expect(lines).toContain(
+    'test_duration_ms_bucket{statement="version",le="5000"} 3',
+  );
+  expect(lines).toContain(
+    'test_duration_ms_bucket{statement="version",le="+Inf"} 4',
+  );
+  expect(lines).toContain('test_duration_ms_sum{statement="version"} 12010.5');
+  expect(lines).toContain('test_duration_ms_count{statement="version"} 4');
+});
@@ -0,0 +1,361 @@
+/**
+ * OpenAPI document tests
+ *
+ * Calls the real handler through the offline harness and checks every
+ * response against the document it serves.
+ *
+ * Run with: bun test
+ */
+import { afterAll, beforeAll, expect, test } from 'bun:test';
+import type { JsonSchema, TokenResponse } from '../src/types.ts';
+import { createHarness, type Harness } from './harness/index.ts';
+
+const API_KEY = 'openapi-test-key';
+const METRICS_TOKEN = 'openapi-metrics-token';
+const TOKEN_SECRET = 'openapi-token-secret';
+
+type Operation = {
+  security?: unknown;
+  responses: Record<
+    string,
+    {
+      description: string;
+      headers?: Record<string, unknown>;
+      content?: Record<string, { schema: JsonSchema }>;
+    }
+  >;
+};
+
+type OpenApiDocument = {
+  openapi: string;
+  servers: unknown;
+  paths: Record<string, Record<string, Operation>>;
+  components: { securitySchemes: Record<string, { scheme: string }> };
+};
+
+let h: Harness;
+let spec: OpenApiDocument;
+
+const call = (
+  method: string,
+  path: string,
+  options: { body?: unknown; headers?: Record<string, string> } = {},
+) => h.request(method, path, { key: API_KEY, ...options });
+
+beforeAll(async () => {
+  h = createHarness({ METRICS_TOKEN, TOKEN_SECRET });
+  const { id: orgId } = h.fixtures.organization({ plan: 'pro' });
+  await h.fixtures.apiKey(orgId, { key: API_KEY });
+  const { id: promptId } = h.fixtures.prompt(orgId, {
+    name: 'Greeting',
+    description: 'Says hi',
+  });
+  h.fixtures.version(promptId, '1.0.0', {
+    systemMessage: 'Be brief',
+    userMessage: `Hi \${name}`,
+    config: { schema: [{ name: 'name', type: 'string' }] },
+  });
+
+  spec = await (await call('GET', '/v1/openapi.json')).json();
+});
+
+afterAll(() => {
+  h.close();
+});
+
+/**
+ * Resolve a local $ref
+ */
+const lookup = (ref: string): JsonSchema | undefined =>
+  ref
+    .replace(/^#\//, '')
+    .split('/')
+    .reduce<unknown>(
+      (node, key) => (node as Record<string, unknown> | undefined)?.[key],
+      spec,
+    ) as JsonSchema | undefined;
+
+const isType = (value: unknown, type: string): boolean => {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'integer':
+      return Number.isInteger(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return (
+        typeof value === 'object' && value !== null && !Array.isArray(value)
+      );
+    default:
+      return typeof value === type;
+  }
+};
+
+/**
+ * Validate a value against the JSON Schema subset the document uses
+ */
+const validate = (value: unknown, schema: JsonSchema, path = '$'): string[] => {
+  const errors: string[] = [];
+
+  if (typeof schema.$ref === 'string') {
+    errors.push(...validate(value, lookup(schema.$ref) ?? {}, path));
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const matches = schema.oneOf.filter(
+      (option: JsonSchema) => validate(value, option, path).length === 0,
+    ).length;
+    if (matches !== 1) {
+      errors.push(`${path}: matches ${matches} oneOf options`);
+    }
+  }
+  if ('const' in schema && value !== schema.const) {
+    errors.push(`${path}: expected ${schema.const}`);
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+    errors.push(`${path}: ${JSON.stringify(value)} not in enum`);
+  }
+  if (schema.type) {
+    const types = [schema.type].flat() as string[];
+    if (!types.some((type) => isType(value, type))) {
+      return [...errors, `${path}: expected ${types.join(' | ')}`];
+    }
+  }
+
+  if (isType(value, 'object')) {
+    const object = value as Record<string, unknown>;
+    const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+    for (const name of (schema.required ?? []) as string[]) {
+      if (!(name in object)) {
+        errors.push(`${path}.${name}: missing`);
+      }
+    }
+    for (const [name, property] of Object.entries(object)) {
+      const propertySchema = properties[name];
+      if (propertySchema) {
+        errors.push(...validate(property, propertySchema, `${path}.${name}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${name}: not documented`);
+      }
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => {
+      errors.push(
+        ...validate(item, schema.items as JsonSchema, `${path}[${i}]`),
+      );
+    });
+  }
+
+  return errors;
+};
+
+/**
+ * Check a response against the document: status documented, body valid,
+ * documented headers sent
+ */
+const expectDocumented = async (
+  response: Response,
+  method: string,
+  template: string,
+) => {
+  const operation = spec.paths[template]?.[method.toLowerCase()];
+  const documented = operation?.responses[String(response.status)];
+  if (!documented) {
+    throw new Error(`${method} ${template} ${response.status} not documented`);
+  }
+
+  for (const header of Object.keys(documented.headers ?? {})) {
+    // Link only appears when there is a next page
+    if (header !== 'Link') {
+      expect(response.headers.has(header)).toBe(true);
+    }
+  }
+
+  const schema = documented.content?.['application/json']?.schema;
+  if (schema) {
+    expect(validate(await response.json(), schema)).toEqual([]);
+  }
+};
+
+// Document
+
+test('describes every route with resolvable references', () => {
+  expect(spec.openapi).toBe('3.1.0');
+  expect(spec.servers).toEqual([{ url: 'https://api.test/v1' }]);
+  expect(Object.keys(spec.paths).sort()).toEqual([
+    '/internal/invalidate',
+    '/internal/metrics',
+    '/internal/revocations',
+    '/openapi.json',
+    '/prompts',
+    '/prompts/batch',
+    '/prompts/{promptId}',
+    '/prompts/{promptId}/render',
+    '/tokens',
+    '/usage',
+    '/usage/breakdown',
+  ]);
+
+  const refs = JSON.stringify(spec).match(/"\$ref":"[^"]+"/g) ?? [];
+  for (const ref of refs) {
+    expect(lookup(ref.slice(8, -1))).toBeDefined();
+  }
+});
+
+test('documents the bearer scheme and rate limit headers', () => {
+  const getPrompt = spec.paths['/prompts/{promptId}']?.get;
+
+  expect(spec.components.securitySchemes.bearerAuth?.scheme).toBe('bearer');
+  expect(getPrompt?.security).toEqual([{ bearerAuth: [] }]);
+  expect(Object.keys(getPrompt?.responses['200']?.headers ?? {})).toContain(
+    'X-RateLimit-Remaining',
+  );
+  expect(getPrompt?.responses['404']?.description).toBe(
+    'NOT_FOUND, VERSION_NOT_FOUND, LABEL_NOT_FOUND',
+  );
+  expect(getPrompt?.responses['429']?.content).toBeDefined();
+});
+
+// Real responses
+
+test('client tokens match the document', async () => {
+  const issued = await call('POST', '/v1/tokens', {
+    body: { prompts: [{ promptId: 'prompt-1', versions: ['^1.0.0'] }] },
+  });
+  const { token } = (await issued.clone().json()) as TokenResponse;
+  const cases: [Response, string, string][] = [
+    [issued, 'POST', '/tokens'],
+    [await call('POST', '/v1/tokens', { body: {} }), 'POST', '/tokens'],
+    [
+      await call('GET', '/v1/prompts/prompt-1', {
+        headers: { Authorization: `Bearer ${token}` },
+      }),
+      'GET',
+      '/prompts/{promptId}',
+    ],
+    [
+      await call('GET', '/v1/prompts', {
+        headers: { Authorization: `Bearer ${token}` },
+      }),
+      'GET',
+      '/prompts',
+    ],
+  ];
+
+  for (const [response, method, template] of cases) {
+    await expectDocumented(response, method, template);
+  }
+});
+
+test('prompt fetches match the document', async () => {
+  const ok = await call('GET', '/v1/prompts/prompt-1');
+  const etag = ok.headers.get('ETag') as string;
+  await expectDocumented(ok, 'GET', '/prompts/{promptId}');
+
+  const notModified = await call('GET', '/v1/prompts/prompt-1', {
+    headers: { 'If-None-Match': etag },
+  });
+  expect(notModified.status).toBe(304);
+  await expectDocumented(notModified, 'GET', '/prompts/{promptId}');
+
+  for (const path of [
+    '/v1/prompts/prompt-1?version=9.9.9',
+    '/v1/prompts/prompt-1?version=nope',
+    '/v1/prompts/missing',
+  ]) {
+    await expectDocumented(
+      await call('GET', path),
+      'GET',
+      '/prompts/{promptId}',
+    );
+  }
+});
+
+test('auth failures match the document', async () => {
+  const missing = await call('GET', '/v1/prompts/prompt-1', {
+    headers: { Authorization: '' },
+  });
+  const invalid = await call('GET', '/v1/prompts/prompt-1', {
+    headers: { Authorization: 'Bearer wrong' },
+  });
+
+  expect(missing.status).toBe(401);
+  expect(invalid.status).toBe(401);
+  await expectDocumented(missing, 'GET', '/prompts/{promptId}');
+  await expectDocumented(invalid, 'GET', '/prompts/{promptId}');
+});
+
+test('method and version errors match the document', async () => {
+  const wrongMethod = await call('DELETE', '/v1/prompts/prompt-1');
+  const wrongVersion = await call('GET', '/v99/prompts/prompt-1');
+
+  expect(wrongMethod.status).toBe(405);
+  expect(wrongVersion.status).toBe(400);
+  // No operation exists for the wrong method; each documented one lists 405
+  await expectDocumented(wrongMethod, 'GET', '/prompts/{promptId}');
+  await expectDocumented(wrongVersion, 'GET', '/prompts/{promptId}');
+});
+
+test('listings, batches and renders match the document', async () => {
+  const cases: [string, string, string, unknown?][] = [
+    ['GET', '/v1/prompts', '/prompts'],
+    ['GET', '/v1/prompts?limit=1&include_versions=true', '/prompts'],
+    ['GET', '/v1/prompts?sort=size', '/prompts'],
+    [
+      'POST',
+      '/v1/prompts/batch',
+      '/prompts/batch',
+      { prompts: [{ promptId: 'prompt-1' }, { promptId: 'missing' }] },
+    ],
+    ['POST', '/v1/prompts/batch', '/prompts/batch', { prompts: [] }],
+    [
+      'POST',
+      '/v1/prompts/prompt-1/render',
+      '/prompts/{promptId}/render',
+      { variables: { name: 'Ada' } },
+    ],
+    [
+      'POST',
+      '/v1/prompts/prompt-1/render',
+      '/prompts/{promptId}/render',
+      { variables: { name: 42 } },
+    ],
+  ];
+
+  for (const [method, path, template, body] of cases) {
+    await expectDocumented(
+      await call(method, path, { body }),
+      method,
+      template,
+    );
+  }
+});
+
+test('usage reports and internal endpoints match the document', async () => {
+  const cases: [string, string, string, Record<string, string>?][] = [
+    ['GET', '/v1/usage', '/usage'],
+    ['GET', '/v1/usage?from=2026-02-01&to=2026-01-01', '/usage'],
+    ['GET', '/v1/usage/breakdown?group_by=version', '/usage/breakdown'],
+    ['GET', '/v1/usage/breakdown?group_by=apikey', '/usage/breakdown'],
+    ['POST', '/v1/internal/invalidate', '/internal/invalidate'],
+    ['POST', '/v1/internal/revocations', '/internal/revocations'],
+    ['GET', '/v1/internal/metrics', '/internal/metrics'],
+    [
+      'GET',
+      '/v1/internal/metrics',
+      '/internal/metrics',
+      { Authorization: `Bearer ${METRICS_TOKEN}` },
+    ],
+    ['GET', '/v1/openapi.json', '/openapi.json'],
+  ];
+
+  for (const [method, path, template, headers] of cases) {
+    await expectDocumented(
+      await call(method, path, { headers }),
+      method,
+      template,
+    );
+  }
+});
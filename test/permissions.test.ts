@@ -0,0 +1,71 @@
+/**
+ * Permission and resource scope tests
+ *
+ * Run with: bun test
+ */
+import { expect, test } from 'bun:test';
+import { inScope, matchesPattern, resourceScope } from '../src/permissions.ts';
+
+// Patterns
+
+test('matches IDs literally apart from the * wildcard', () => {
+  expect(matchesPattern('checkout-*', 'checkout-banner')).toBe(true);
+  expect(matchesPattern('checkout-*', 'checkout-')).toBe(true);
+  expect(matchesPattern('checkout-*', 'xcheckout-banner')).toBe(false);
+  expect(matchesPattern('*-banner', 'checkout-banner')).toBe(true);
+  expect(matchesPattern('a.c', 'abc')).toBe(false);
+  expect(matchesPattern('a?c', 'a?c')).toBe(true);
+  expect(matchesPattern('a?c', 'abc')).toBe(false);
+});
+
+// Scopes
+
+test('a plain resource grant covers every prompt', () => {
+  const scope = resourceScope({ prompt: ['read'] }, 'prompt:read');
+
+  expect(scope).toEqual({ type: 'all' });
+  expect(inScope({ type: 'all' }, 'anything')).toBe(true);
+});
+
+test('scoped grants collect their patterns', () => {
+  const scope = resourceScope(
+    {
+      'prompt:p-1': ['read'],
+      'prompt:checkout-*': ['read', 'write'],
+      'prompt:admin-*': ['write'],
+    },
+    'prompt:read',
+  );
+
+  expect(scope).toEqual({ type: 'patterns', patterns: ['p-1', 'checkout-*'] });
+  expect(inScope(scope as NonNullable<typeof scope>, 'checkout-cart')).toBe(
+    true,
+  );
+  expect(inScope(scope as NonNullable<typeof scope>, 'admin-panel')).toBe(
+    false,
+  );
+});
+
+test('a plain grant wins over scoped ones', () => {
+  expect(
+    resourceScope({ 'prompt:p-1': ['read'], prompt: ['read'] }, 'prompt:read'),
+  ).toEqual({ type: 'all' });
+});
+
+test('* grants every action', () => {
+  expect(resourceScope({ prompt: ['*'] }, 'prompt:read')).toEqual({
+    type: 'all',
+  });
+  expect(resourceScope({ 'prompt:p-*': ['*'] }, 'prompt:write')).toEqual({
+    type: 'patterns',
+    patterns: ['p-*'],
+  });
+});
+
+test('returns null when nothing grants the permission', () => {
+  expect(resourceScope({ prompt: ['write'] }, 'prompt:read')).toBeNull();
+  expect(resourceScope({ usage: ['read'] }, 'prompt:read')).toBeNull();
+  expect(resourceScope({ 'prompt:': ['read'] }, 'prompt:read')).toBeNull();
+  expect(resourceScope({ prompt: ['read'] }, 'prompt')).toBeNull();
+  expect(resourceScope({}, 'prompt:read')).toBeNull();
+});
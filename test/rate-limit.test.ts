@@ -0,0 +1,88 @@
+/**
+ * Burst rate limiting tests
+ *
+ * Run with: bun test
+ */
+import { expect, test } from 'bun:test';
+import { buildBurstRules, consumeWindows } from '../src/rate-limit.ts';
+import type { RateLimitRule, RateLimitWindow } from '../src/types.ts';
+
+const rule = (limit: number, windowMs = 1000): RateLimitRule => ({
+  key: `test:${windowMs}`,
+  scope: 'key',
+  limit,
+  windowMs,
+});
+
+// Limits
+
+test('allows hits up to the limit, then blocks', () => {
+  const windows = new Map<string, RateLimitWindow>();
+  const rules = [rule(3)];
+  const start = 10_000;
+
+  const results = [0, 1, 2, 3].map((i) =>
+    consumeWindows(windows, rules, start + i),
+  );
+
+  expect(results.map((r) => r.allowed)).toEqual([true, true, true, false]);
+  expect(results[2]?.remaining).toBe(0);
+  expect(results[3]?.retryAfterMs).toBeGreaterThan(0);
+  expect(results[3]?.resetAt).toBe(11_000);
+});
+
+test('rejected hits are not counted', () => {
+  const windows = new Map<string, RateLimitWindow>();
+  const rules = [rule(1)];
+
+  consumeWindows(windows, rules, 10_000);
+  for (let i = 1; i < 10; i++) {
+    consumeWindows(windows, rules, 10_000 + i);
+  }
+
+  expect(windows.get('test:1000')?.current).toBe(1);
+});
+
+test('previous window decays as the sliding window moves on', () => {
+  const windows = new Map<string, RateLimitWindow>();
+  const rules = [rule(2)];
+
+  consumeWindows(windows, rules, 10_000);
+  consumeWindows(windows, rules, 10_001);
+
+  // Just after the roll-over, the previous window still counts almost fully
+  expect(consumeWindows(windows, rules, 11_100).allowed).toBe(false);
+  // Half-way through, one hit fits again
+  expect(consumeWindows(windows, rules, 11_500).allowed).toBe(true);
+  // A window that isn't adjacent is forgotten entirely
+  expect(consumeWindows(windows, rules, 20_000).remaining).toBe(1);
+});
+
+test('reports the rule that blocks longest', () => {
+  const windows = new Map<string, RateLimitWindow>();
+  const rules = [
+    { ...rule(1), key: 'second' },
+    { ...rule(1, 60_000), key: 'minute', scope: 'organization' as const },
+  ];
+
+  consumeWindows(windows, rules, 60_000);
+  const blocked = consumeWindows(windows, rules, 60_001);
+
+  expect(blocked.allowed).toBe(false);
+  expect(blocked.scope).toBe('organization');
+  expect(blocked.windowMs).toBe(60_000);
+});
+
+// Rules
+
+test('builds per-key and per-org rules from the plan', () => {
+  const rules = buildBurstRules('free', 'key-1', 'org-1');
+
+  expect(rules.map((r) => r.key)).toEqual([
+    'key:key-1:s',
+    'key:key-1:m',
+    'org:org-1:s',
+    'org:org-1:m',
+  ]);
+  expect(rules[0]?.limit).toBe(5);
+});
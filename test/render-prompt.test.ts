@@ -0,0 +1,79 @@
+/**
+ * Variable validation and interpolation tests
+ *
+ * Run with: bun test
+ */
+import { expect, test } from 'bun:test';
+import { renderPrompt } from '../src/render-prompt.ts';
+import type { PromptResponse, VariableError } from '../src/types.ts';
+
+const prompt = (
+  userMessage: string,
+  schema?: Record<string, unknown>[],
+): PromptResponse => ({
+  promptId: 'p-1',
+  promptName: 'Greeting',
+  version: '1.0.0',
+  systemMessage: 'Be brief',
+  userMessage,
+  config: schema ? { schema } : {},
+});
+
+const codes = (result: ReturnType<typeof renderPrompt>) =>
+  'errors' in result
+    ? result.errors.map(({ name, code }: VariableError) => [name, code])
+    : [];
+
+// Interpolation
+
+test('fills placeholders, tolerating whitespace inside the braces', () => {
+  const result = renderPrompt(
+    prompt(`Hi \${ name }, you have \${count} items: \${tags}`),
+    { name: 'Ada', count: 3, tags: ['a', 'b'] },
+  );
+
+  expect(result).toMatchObject({
+    systemMessage: 'Be brief',
+    userMessage: 'Hi Ada, you have 3 items: ["a","b"]',
+  });
+});
+
+// Validation
+
+test('reports missing, unknown and wrongly typed variables', () => {
+  const schema = [
+    { name: 'name', type: 'string' },
+    { name: 'count', type: 'integer' },
+  ];
+
+  expect(
+    codes(
+      renderPrompt(prompt(`Hi \${name}`, schema), { count: 1.5, extra: 1 }),
+    ),
+  ).toEqual([
+    ['name', 'MISSING_VARIABLE'],
+    ['count', 'INVALID_VARIABLE_TYPE'],
+    ['extra', 'UNKNOWN_VARIABLE'],
+  ]);
+});
+
+test('optional schema fields may be left out', () => {
+  const result = renderPrompt(
+    prompt('Hi', [{ name: 'tone', type: 'string', required: false }]),
+    {},
+  );
+
+  expect(result).toMatchObject({ userMessage: 'Hi' });
+});
+
+test('inherited object properties are not variables', () => {
+  expect(
+    codes(renderPrompt(prompt(`\${constructor} \${toString}`), {})),
+  ).toEqual([
+    ['constructor', 'MISSING_VARIABLE'],
+    ['toString', 'MISSING_VARIABLE'],
+  ]);
+  expect(
+    renderPrompt(prompt(`\${ constructor }`), { constructor: 'own' }),
+  ).toMatchObject({ userMessage: 'own' });
+});
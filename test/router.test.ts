@@ -0,0 +1,100 @@
+/**
+ * Router tests
+ *
+ * Run with: bun test
+ */
+import { expect, test } from 'bun:test';
+import { allowedMethods, defineRoute, matchRoute } from '../src/router.ts';
+import type { Route } from '../src/types.ts';
+
+const handler = async () => new Response(null);
+const docs = { operationId: 'test', summary: 'Test', response: 'Test' };
+
+const routes: Route[] = [
+  defineRoute({
+    method: 'GET',
+    path: '/prompts',
+    docs,
+    auth: 'public',
+    handler,
+  }),
+  defineRoute({
+    method: 'POST',
+    path: '/prompts/batch',
+    docs,
+    auth: 'public',
+    handler,
+  }),
+  defineRoute({
+    method: 'GET',
+    path: '/prompts/:promptId',
+    docs,
+    auth: 'public',
+    handler,
+  }),
+  defineRoute({
+    method: 'POST',
+    path: '/prompts/:promptId/render',
+    docs,
+    auth: 'public',
+    handler,
+  }),
+];
+
+// Matching
+
+test('matches static and param routes', () => {
+  const list = matchRoute(routes, 'GET', '/prompts');
+  const single = matchRoute(routes, 'GET', '/prompts/abc');
+  const render = matchRoute(routes, 'POST', '/prompts/abc/render');
+
+  expect(list.type === 'found' && list.route.path).toBe('/prompts');
+  expect(single.type === 'found' && single.params).toEqual({
+    promptId: 'abc',
+  });
+  expect(render.type === 'found' && render.params).toEqual({
+    promptId: 'abc',
+  });
+});
+
+test('decodes path params', () => {
+  const match = matchRoute(routes, 'GET', '/prompts/a%20b');
+
+  expect(match.type === 'found' && match.params).toEqual({ promptId: 'a b' });
+});
+
+test('prefers static segments over params', () => {
+  const match = matchRoute(routes, 'POST', '/prompts/batch');
+
+  expect(match.type === 'found' && match.route.path).toBe('/prompts/batch');
+});
+
+test('returns 404 for unknown paths', () => {
+  expect(matchRoute(routes, 'GET', '/unknown').type).toBe('not_found');
+  expect(matchRoute(routes, 'GET', '/prompts/').type).toBe('not_found');
+  expect(matchRoute(routes, 'GET', '/prompts/%E0%A4%A').type).toBe('not_found');
+});
+
+// Methods
+
+test('returns the allowed methods for the matched path', () => {
+  expect(matchRoute(routes, 'POST', '/prompts/abc')).toEqual({
+    type: 'method_not_allowed',
+    allow: ['GET', 'HEAD'],
+  });
+  // The static route wins, so GET doesn't fall through to /prompts/:promptId
+  expect(matchRoute(routes, 'GET', '/prompts/batch')).toEqual({
+    type: 'method_not_allowed',
+    allow: ['POST'],
+  });
+  expect(matchRoute(routes, 'DELETE', '/prompts').type).toBe(
+    'method_not_allowed',
+  );
+});
+
+test('serves HEAD from GET routes', () => {
+  const match = matchRoute(routes, 'HEAD', '/prompts/abc');
+
+  expect(match.type === 'found' && match.route.method).toBe('GET');
+  expect(allowedMethods(['POST', 'GET'])).toEqual(['GET', 'HEAD', 'POST']);
+});
@@ -0,0 +1,80 @@
+/**
+ * Semver range parsing tests
+ *
+ * Run with: bun test
+ */
+import { expect, test } from 'bun:test';
+import { parseRange, parseVersion, satisfiesRange } from '../src/semver.ts';
+
+const PUBLISHED = [
+  '0.1.0',
+  '0.1.5',
+  '0.2.0',
+  '1.3.9',
+  '1.4.0',
+  '1.9.2',
+  '2.0.0',
+  '2.1.0',
+  '2.1.4',
+  '2.2.0',
+  '3.0.0',
+];
+
+const matching = (range: string): string[] => {
+  const parsed = parseRange(range);
+  if (!parsed) {
+    throw new Error(`Expected ${range} to parse`);
+  }
+  return PUBLISHED.filter((v) => {
+    const version = parseVersion(v);
+    return version !== null && satisfiesRange(version, parsed);
+  });
+};
+
+// Exact versions
+
+test('parses exact versions only', () => {
+  expect(parseVersion('2.1.0')).toEqual({ major: 2, minor: 1, patch: 0 });
+  expect(parseVersion('2.1')).toBeNull();
+  expect(parseVersion('^2.1.0')).toBeNull();
+});
+
+// Ranges
+
+test('caret ranges allow changes right of the first non-zero part', () => {
+  expect(matching('^2.1.0')).toEqual(['2.1.0', '2.1.4', '2.2.0']);
+  expect(matching('^0.1.0')).toEqual(['0.1.0', '0.1.5']);
+  expect(matching('^1')).toEqual(['1.3.9', '1.4.0', '1.9.2']);
+});
+
+test('tilde ranges allow patch changes', () => {
+  expect(matching('~2.1')).toEqual(['2.1.0', '2.1.4']);
+  expect(matching('~2.1.2')).toEqual(['2.1.4']);
+  expect(matching('~1')).toEqual(['1.3.9', '1.4.0', '1.9.2']);
+});
+
+test('x-ranges and partial versions', () => {
+  expect(matching('2.x')).toEqual(['2.0.0', '2.1.0', '2.1.4', '2.2.0']);
+  expect(matching('2.1')).toEqual(['2.1.0', '2.1.4']);
+  expect(matching('*')).toEqual(PUBLISHED);
+});
+
+test('comparator sets are intersected', () => {
+  expect(matching('>=1.4 <2')).toEqual(['1.4.0', '1.9.2']);
+  expect(matching('>= 1.4 < 2')).toEqual(['1.4.0', '1.9.2']);
+  expect(matching('>1.4 <=2.1')).toEqual(['1.9.2', '2.0.0', '2.1.0', '2.1.4']);
+});
+
+test('hyphen ranges and unions', () => {
+  expect(matching('1.4 - 2.1.0')).toEqual(['1.4.0', '1.9.2', '2.0.0', '2.1.0']);
+  expect(matching('^0.2 || ^3')).toEqual(['0.2.0', '3.0.0']);
+});
+
+test('rejects invalid ranges', () => {
+  expect(parseRange('invalid')).toBeNull();
+  expect(parseRange('>=')).toBeNull();
+  expect(parseRange('1.2.3.4')).toBeNull();
+  expect(parseRange(Array.from({ length: 20 }, () => '>=1').join(' '))).toBe(
+    null,
+  );
+});
@@ -7,31 +7,12 @@
  * Run with: bun test
  */
 import { expect, test } from 'bun:test';
+import type { ErrorResponse, PromptResponse } from '../src/types.ts';
 
 const API_URL = process.env.API_URL || 'https://api.promptlycms.com';
 const API_KEY = process.env.TEST_PROMPT_API_KEY;
 const TEST_PROMPT_ID = process.env.TEST_PROMPT_ID;
 
-type ErrorResponse = {
-  error: string;
-  code: string;
-};
-
-type PublishedVersion = {
-  version: string;
-  userMessage: string | null;
-};
-
-type PromptResponse = {
-  promptId: string;
-  promptName: string;
-  version: string;
-  systemMessage: string | null;
-  userMessage: string | null;
-  config: Record<string, unknown>;
-  publishedVersions?: PublishedVersion[];
-};
-
 const skipWithoutKey = API_KEY ? test : test.skip;
 const skipWithoutPrompt = API_KEY && TEST_PROMPT_ID ? test : test.skip;
 
@@ -45,6 +26,7 @@ skipWithoutKey('returns 401 for missing Authorization header', async () => {
   expect(body).toEqual({
     error: 'Missing Authorization header',
     code: 'UNAUTHORIZED',
+    requestId: expect.any(String),
   });
 });
 
@@ -58,6 +40,7 @@ skipWithoutKey('returns 401 for invalid API key', async () => {
   expect(body).toEqual({
     error: 'Invalid API key',
     code: 'INVALID_KEY',
+    requestId: expect.any(String),
   });
 });
 
@@ -82,10 +65,10 @@ skipWithoutKey('returns CORS headers on preflight', async () => {
   expect(response.status).toBe(204);
   expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
   expect(response.headers.get('Access-Control-Allow-Methods')).toBe(
-    'GET, OPTIONS',
+    'GET, HEAD, POST, OPTIONS',
   );
   expect(response.headers.get('Access-Control-Allow-Headers')).toBe(
-    'Authorization, Content-Type',
+    'Authorization, Content-Type, If-None-Match, Accept-Version, X-Request-Id',
   );
 });
 
@@ -104,7 +87,11 @@ skipWithoutKey('returns 404 for unknown routes', async () => {
 
   expect(response.status).toBe(404);
   const body = (await response.json()) as ErrorResponse;
-  expect(body).toEqual({ error: 'Not found', code: 'NOT_FOUND' });
+  expect(body).toEqual({
+    error: 'Not found',
+    code: 'NOT_FOUND',
+    requestId: expect.any(String),
+  });
 });
 
 skipWithoutKey('returns 405 for non-GET methods', async () => {
@@ -114,13 +101,48 @@ skipWithoutKey('returns 405 for non-GET methods', async () => {
   });
 
   expect(response.status).toBe(405);
+  expect(response.headers.get('Allow')).toBe('GET, HEAD');
   const body = (await response.json()) as ErrorResponse;
   expect(body).toEqual({
     error: 'Method not allowed',
     code: 'METHOD_NOT_ALLOWED',
+    requestId: expect.any(String),
   });
 });
 
+skipWithoutPrompt('serves the same prompt under /v1', async () => {
+  const headers = { Authorization: `Bearer ${API_KEY}` };
+  const [unversioned, versioned] = await Promise.all([
+    fetch(`${API_URL}/prompts/${TEST_PROMPT_ID}`, { headers }),
+    fetch(`${API_URL}/v1/prompts/${TEST_PROMPT_ID}`, { headers }),
+  ]);
+
+  expect(versioned.status).toBe(200);
+  expect(versioned.headers.get('API-Version')).toBe('v1');
+  expect(await versioned.json()).toEqual(await unversioned.json());
+});
+
+skipWithoutKey('returns 400 for unsupported API versions', async () => {
+  const response = await fetch(`${API_URL}/v99/prompts`, {
+    headers: { Authorization: `Bearer ${API_KEY}` },
+  });
+
+  expect(response.status).toBe(400);
+  const body = (await response.json()) as ErrorResponse;
+  expect(body.code).toBe('UNSUPPORTED_API_VERSION');
+});
+
+skipWithoutPrompt('answers HEAD with headers and no body', async () => {
+  const response = await fetch(`${API_URL}/prompts/${TEST_PROMPT_ID}`, {
+    method: 'HEAD',
+    headers: { Authorization: `Bearer ${API_KEY}` },
+  });
+
+  expect(response.status).toBe(200);
+  expect(response.headers.get('ETag')).not.toBeNull();
+  expect(await response.text()).toBe('');
+});
+
 // Prompt listing
 
 skipWithoutKey('lists prompts with correct structure', async () => {
@@ -294,6 +316,74 @@ skipWithoutPrompt('returns 400 for invalid version format', async () => {
   expect(body.code).toBe('BAD_REQUEST');
 });
 
+// Batch fetching
+
+skipWithoutKey('returns per-item errors in batch responses', async () => {
+  const response = await fetch(`${API_URL}/prompts/batch`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      prompts: [{ promptId: 'definitely-not-a-real-id-12345' }],
+    }),
+  });
+
+  expect(response.status).toBe(200);
+  const body = (await response.json()) as {
+    results: { promptId: string; status: number; error?: ErrorResponse }[];
+  };
+  expect(body.results).toHaveLength(1);
+  expect(body.results[0]?.status).toBe(404);
+  expect(body.results[0]?.error?.code).toBe('NOT_FOUND');
+});
+
+skipWithoutPrompt('fetches multiple prompts in one batch', async () => {
+  const response = await fetch(`${API_URL}/prompts/batch`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      prompts: [{ promptId: TEST_PROMPT_ID }, { promptId: TEST_PROMPT_ID }],
+    }),
+  });
+
+  expect(response.status).toBe(200);
+  const body = (await response.json()) as {
+    results: { status: number; prompt?: PromptResponse }[];
+  };
+  expect(body.results.map((r) => r.status)).toEqual([200, 200]);
+  expect(body.results[0]?.prompt?.promptId).toBe(TEST_PROMPT_ID);
+});
+
+// Prompt rendering
+
+skipWithoutKey('returns 400 for a malformed render body', async () => {
+  const response = await fetch(`${API_URL}/prompts/any-id/render`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: 'not json',
+  });
+
+  expect(response.status).toBe(400);
+  const body = (await response.json()) as ErrorResponse;
+  expect(body.code).toBe('BAD_REQUEST');
+});
+
+skipWithoutKey('returns 405 for GET on the render route', async () => {
+  const response = await fetch(`${API_URL}/prompts/any-id/render`, {
+    headers: { Authorization: `Bearer ${API_KEY}` },
+  });
+
+  expect(response.status).toBe(405);
+});
+
 // Response headers
 
 skipWithoutKey('returns JSON content type', async () => {
@@ -304,6 +394,46 @@ skipWithoutKey('returns JSON content type', async () => {
   expect(response.headers.get('Content-Type')).toBe('application/json');
 });
 
+// Conditional requests
+
+skipWithoutPrompt('returns 304 when the ETag matches', async () => {
+  const first = await fetch(`${API_URL}/prompts/${TEST_PROMPT_ID}`, {
+    headers: { Authorization: `Bearer ${API_KEY}` },
+  });
+  expect(first.status).toBe(200);
+
+  const etag = first.headers.get('ETag');
+  expect(etag).toMatch(/^"[\w-]+"$/);
+  expect(first.headers.get('Cache-Control')).toBe('private, max-age=60');
+
+  const second = await fetch(`${API_URL}/prompts/${TEST_PROMPT_ID}`, {
+    headers: {
+      Authorization: `Bearer ${API_KEY}`,
+      'If-None-Match': etag ?? '',
+    },
+  });
+
+  expect(second.status).toBe(304);
+  expect(second.headers.get('ETag')).toBe(etag);
+  expect(await second.text()).toBe('');
+});
+
+skipWithoutPrompt('caches pinned versions for 5 minutes', async () => {
+  const latest = await fetch(`${API_URL}/prompts/${TEST_PROMPT_ID}`, {
+    headers: { Authorization: `Bearer ${API_KEY}` },
+  });
+  const { version } = (await latest.json()) as PromptResponse;
+
+  const response = await fetch(
+    `${API_URL}/prompts/${TEST_PROMPT_ID}?version=${version}`,
+    {
+      headers: { Authorization: `Bearer ${API_KEY}` },
+    },
+  );
+
+  expect(response.headers.get('Cache-Control')).toBe('private, max-age=300');
+});
+
 // Rate limit headers
 
 skipWithoutPrompt('returns correct rate limit headers for plan', async () => {
@@ -334,3 +464,31 @@ skipWithoutPrompt('returns correct rate limit headers for plan', async () => {
     expect(reset).toBeNull();
   }
 });
+
+// Usage reporting
+
+skipWithoutKey('returns usage report without counting the call', async () => {
+  const headers = { Authorization: `Bearer ${API_KEY}` };
+
+  const first = await fetch(`${API_URL}/usage`, { headers });
+  expect(first.status).toBe(200);
+  const before = (await first.json()) as { used: number; daily: unknown };
+  expect(before.daily).toBeDefined();
+
+  const second = await fetch(`${API_URL}/usage`, { headers });
+  const after = (await second.json()) as { used: number };
+  expect(after.used).toBe(before.used);
+});
+
+skipWithoutKey('returns 400 for an invalid usage range', async () => {
+  const response = await fetch(
+    `${API_URL}/usage?from=2026-02-01&to=2026-01-01`,
+    {
+      headers: { Authorization: `Bearer ${API_KEY}` },
+    },
+  );
+
+  expect(response.status).toBe(400);
+  const body = (await response.json()) as ErrorResponse;
+  expect(body.code).toBe('BAD_REQUEST');
+});
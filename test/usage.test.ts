@@ -0,0 +1,70 @@
+/**
+ * Usage reporting tests
+ *
+ * Run with: bun test
+ */
+import { expect, test } from 'bun:test';
+import { parseUsageBreakdownQuery, parseUsageRange } from '../src/usage.ts';
+
+const parse = (query: string) => parseUsageRange(new URLSearchParams(query));
+
+// Date ranges
+
+test('defaults to the current month up to today', () => {
+  const today = new Date().toISOString().slice(0, 10);
+
+  expect(parse('')).toEqual({ from: `${today.slice(0, 7)}-01`, to: today });
+});
+
+test('accepts an explicit range', () => {
+  expect(parse('from=2026-01-15&to=2026-02-14')).toEqual({
+    from: '2026-01-15',
+    to: '2026-02-14',
+  });
+});
+
+test('defaults from to the start of the month of to', () => {
+  expect(parse('to=2026-03-10')).toEqual({
+    from: '2026-03-01',
+    to: '2026-03-10',
+  });
+});
+
+test('rejects malformed and impossible dates', () => {
+  expect(parse('from=2026-1-01&to=2026-01-02')).toHaveProperty(
+    'code',
+    'BAD_REQUEST',
+  );
+  expect(parse('from=2026-02-30&to=2026-03-01')).toHaveProperty(
+    'code',
+    'BAD_REQUEST',
+  );
+});
+
+test('rejects reversed and oversized ranges', () => {
+  expect(parse('from=2026-02-01&to=2026-01-01')).toHaveProperty(
+    'code',
+    'BAD_REQUEST',
+  );
+  expect(parse('from=2026-01-01&to=2026-04-04')).toHaveProperty(
+    'code',
+    'BAD_REQUEST',
+  );
+  expect(parse('from=2026-01-01&to=2026-04-03')).not.toHaveProperty('code');
+});
+
+// Breakdown
+
+test('parses breakdown period and grouping', () => {
+  const period = new Date().toISOString().slice(0, 7);
+  const breakdown = (query: string) =>
+    parseUsageBreakdownQuery(new URLSearchParams(query));
+
+  expect(breakdown('')).toEqual({ period, groupBy: 'prompt' });
+  expect(breakdown('period=2026-09&group_by=apikey')).toEqual({
+    period: '2026-09',
+    groupBy: 'apikey',
+  });
+  expect(breakdown('period=2026-13')).toHaveProperty('code', 'BAD_REQUEST');
+  expect(breakdown('group_by=model')).toHaveProperty('code', 'BAD_REQUEST');
+});